@@ -1,15 +1,69 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AppState, UploadedFile, Language, LectureContent, QuizQuestion } from './types';
-import { generateLecture, generateLectureImage, generateQuiz, playTTS, extractChapters } from './services/gemini';
+import { AppState, UploadedFile, Language, LectureContent, QuizQuestion, QuizAttempt, SavedLecture, QuizAnswer, QuestionGrade, QuizConfig, LiveTranscript, SourceCitation, ImageAspectRatio, LectureSection, VisualType, LectureSettings, Course, CourseLink } from './types';
+import { generateLecture, generateQuiz, gradeShortAnswer, generateFlashcards, extractChapters, translateLecture, generateSyllabus } from './services/gemini';
+import { DEFAULT_QUIZ_CONFIG, gradeQuiz, initialAnswers, isAnswered, normalizeQuiz, sumGrades, formatScore } from './services/quiz';
+import { saveLecture, describeSourceFiles, getLecture } from './services/library';
+import { AppRoute, formatRoute, isSameScreen, parseRoute } from './services/routes';
+import { createId } from './services/db';
+import { addFlashcards, countFlashcards, flashcardsFromMistakes } from './services/flashcards';
 import LiveProfessor from './components/LiveProfessor';
-import { BookOpen, Upload, Play, CheckCircle, GraduationCap, ArrowRight, Loader, Image as ImageIcon, MessageSquare, Volume2, StopCircle, FileText, Search, List } from 'lucide-react';
+import LectureLibrary from './components/LectureLibrary';
+import ExportMenu from './components/ExportMenu';
+import QuizQuestionCard from './components/QuizQuestionCard';
+import QuizSettings from './components/QuizSettings';
+import FlashcardReview from './components/FlashcardReview';
+import NarrationPlayer from './components/NarrationPlayer';
+import PopQuiz from './components/PopQuiz';
+import SourceViewer from './components/SourceViewer';
+import SectionVisual, { SectionImageJob } from './components/SectionVisual';
+import { lectureImages } from './services/imageQueue';
+import { ErrorAdvice, adviceFor, isAbortError } from './services/errors';
+import { showErrorToast, showToast } from './services/toasts';
+import { payloadProblem, readUploadedFiles } from './services/uploads';
+import { visualTypeOf } from './services/diagrams';
+import DiagramView from './components/DiagramView';
+import MarkdownText from './components/MarkdownText';
+import { formatCitation } from './services/citations';
+import { LectureToolCall } from './services/liveTools';
+import { DEFAULT_TEACHING_LANGUAGE, TEACHING_LANGUAGES, isRightToLeft } from './services/language';
+import { DEFAULT_LECTURE_SETTINGS, describeLectureSettings, normalizeLectureSettings } from './services/lectureSettings';
+import LectureSettingsPanel from './components/LectureSettingsPanel';
+import MasteryReport from './components/MasteryReport';
+import ProgressDashboard from './components/ProgressDashboard';
+import CourseView from './components/CourseView';
+import ToastViewport from './components/ToastViewport';
+import PageManager from './components/PageManager';
+import CameraCapture from './components/CameraCapture';
+import { COURSE_PASS_MARK, createCourse, getCourse, linkChapterLecture, recordChapterScore, saveCourse, updateCourse } from './services/courses';
+import { questionResults, recordQuizResult, saveBookChapters, bookIdFor } from './services/progress';
+import { MASTERY_THRESHOLD, buildQuizFocus, estimateMastery, isMastered, scoreBySection } from './services/mastery';
+import { BookOpen, Upload, Play, CheckCircle, GraduationCap, ArrowRight, Loader, MessageSquare, Volume2, StopCircle, Search, Camera, List, Library, Layers, X, Languages, Target, BarChart3, Route, Link2, AlertTriangle } from 'lucide-react';
+
+// Everything a new lecture is generated from; defaults to the upload form
+interface LectureRequest {
+  files: UploadedFile[];
+  language: Language;
+  teachingLanguage: Language;
+  settings: LectureSettings;
+  chapter: string;
+  course: CourseLink | null;
+}
+
+// What the open lecture was made from; saved with it, whatever the upload form holds later
+type LectureSource = Pick<SavedLecture, 'files' | 'chapter' | 'language'>;
 
 export default function App() {
   const [state, setState] = useState<AppState>(AppState.UPLOAD);
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [selectedLanguage, setSelectedLanguage] = useState<Language>(Language.AUTO);
+  const [teachingLanguage, setTeachingLanguage] = useState<Language>(DEFAULT_TEACHING_LANGUAGE);
+  const [lectureSettings, setLectureSettings] = useState<LectureSettings>(DEFAULT_LECTURE_SETTINGS);
+  const [isPreparingFiles, setIsPreparingFiles] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
+  const loadingAbortRef = useRef<AbortController | null>(null); // Cancels the request behind the loading screen
+  const [uploadError, setUploadError] = useState<ErrorAdvice | null>(null); // Why the last request from the upload form failed
   
   // Chapter Selection Data
   const [detectedChapters, setDetectedChapters] = useState<string[]>([]);
@@ -18,132 +72,710 @@ export default function App() {
   // Data
   const [lecture, setLecture] = useState<LectureContent | null>(null);
   const [generatedImages, setGeneratedImages] = useState<Record<number, string>>({});
+  const [imageJobs, setImageJobs] = useState<Record<number, SectionImageJob>>({});
   const [quiz, setQuiz] = useState<QuizQuestion[]>([]);
+
+  // Library (the current class is autosaved under this id)
+  const [lectureId, setLectureId] = useState<string | null>(null);
+  const [lectureSource, setLectureSource] = useState<LectureSource | null>(null);
+  const [quizAttempts, setQuizAttempts] = useState<QuizAttempt[]>([]);
+  const [transcripts, setTranscripts] = useState<LiveTranscript[]>([]);
+  // Read by async work to tell whether its lecture is still the one on screen
+  const lectureIdRef = useRef<string | null>(null);
+  lectureIdRef.current = lectureId;
+  const imageRequestRef = useRef<Record<number, number>>({});
+
+  // Streaming lecture generation
+  const [isStreamingLecture, setIsStreamingLecture] = useState(false);
+  const lectureAbortRef = useRef<AbortController | null>(null);
+
+  // Flashcards
+  const [dueCardCount, setDueCardCount] = useState(0);
   
   // Live Interaction
   const [showLiveProfessor, setShowLiveProfessor] = useState(false);
-  const [isReadingLecture, setIsReadingLecture] = useState(false);
-  const stopTTSRef = useRef<(() => void) | null>(null);
+  const [showNarration, setShowNarration] = useState(false);
+  const [narratingSection, setNarratingSection] = useState<number | null>(null);
+  // What the Live Professor has put on screen
+  const [highlightedSection, setHighlightedSection] = useState<number | null>(null);
+  const [zoomedImage, setZoomedImage] = useState<number | null>(null);
+  const [popQuiz, setPopQuiz] = useState<QuizQuestion | null>(null);
+  const [openCitation, setOpenCitation] = useState<SourceCitation | null>(null);
 
   // Quiz State
-  const [quizAnswers, setQuizAnswers] = useState<Record<number, number>>({});
+  const [quizConfig, setQuizConfig] = useState<QuizConfig>(DEFAULT_QUIZ_CONFIG);
+  const [quizAnswers, setQuizAnswers] = useState<Record<number, QuizAnswer>>({});
+  const [quizGrades, setQuizGrades] = useState<Record<number, QuestionGrade>>({});
+  const [isGrading, setIsGrading] = useState(false);
+  const [pendingScrollSection, setPendingScrollSection] = useState<number | null>(null);
   const [quizSubmitted, setQuizSubmitted] = useState(false);
+  const [practiceRound, setPracticeRound] = useState(0); // 0 for a regular quiz
+  const quizStartedAtRef = useRef(0);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
-      const newFiles: UploadedFile[] = [];
-      Array.from(e.target.files).forEach(file => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const base64String = reader.result as string;
-          // Extract just the base64 part
-          const base64Data = base64String.split(',')[1];
-          newFiles.push({
-            data: base64Data,
-            mimeType: file.type
-          });
-          if (newFiles.length === e.target.files!.length) {
-             setFiles(prev => [...prev, ...newFiles]);
-             // Reset chapter selection when new files are added
-             setDetectedChapters([]);
-             setSelectedChapter('');
-          }
-        };
-        reader.readAsDataURL(file);
-      });
+  // Course State
+  const [course, setCourse] = useState<Course | null>(null);
+  const [courseLink, setCourseLink] = useState<CourseLink | null>(null); // The open lecture's place in `course`
+
+  // Routing State
+  const [isApplyingRoute, setIsApplyingRoute] = useState(true); // Screen changes aren't written to the URL meanwhile
+  const applyRouteRef = useRef<(route: AppRoute) => Promise<void>>(async () => {});
+
+  // Adding or removing pages changes the book, so its chapters have to be scanned again.
+  // Edits arrive as updaters because a rotation finishes after the list may have changed.
+  const changeFiles = (update: (prev: UploadedFile[]) => UploadedFile[]) => {
+    if (update(files).length !== files.length) {
+      setDetectedChapters([]);
+      setSelectedChapter('');
+    }
+    setFiles(update);
+    setUploadError(null);
+  };
+
+  const addFiles = (newFiles: UploadedFile[]) => {
+    setFiles(prev => [...prev, ...newFiles]);
+    setDetectedChapters([]);
+    setSelectedChapter('');
+    setUploadError(null);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from((e.target.files ?? []) as FileList);
+    e.target.value = ''; // Lets the same file be picked again after removing it
+    if (selected.length === 0) return;
+    setIsPreparingFiles(true);
+    try {
+      addFiles(await readUploadedFiles(selected));
+    } catch (err) {
+      console.error("Failed to read files", err);
+      showToast({ kind: 'error', title: "Couldn't read the files", message: err instanceof Error ? err.message : undefined });
+    } finally {
+      setIsPreparingFiles(false);
+    }
+  };
+
+  // Autosave the current class whenever any part of it changes; the upload form never writes into it
+  useEffect(() => {
+    if (!lectureId || !lecture || !lectureSource || isStreamingLecture || state === AppState.UPLOAD) return;
+    const timer = setTimeout(() => {
+      saveLecture({
+        id: lectureId,
+        sourceFiles: describeSourceFiles(lectureSource.files),
+        ...lectureSource,
+        teachingLanguage,
+        settings: lectureSettings,
+        course: courseLink ?? undefined,
+        lecture,
+        generatedImages,
+        quiz,
+        quizAttempts,
+        transcripts
+      }).catch(e => console.error("Failed to save lecture", e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [lectureId, lecture, lectureSource, isStreamingLecture, state, generatedImages, quiz, quizAttempts, transcripts, teachingLanguage, lectureSettings, courseLink]);
+
+  const refreshDueCards = () => {
+    countFlashcards().then(({ due }) => setDueCardCount(due)).catch(e => console.error("Failed to count flashcards", e));
+  };
+
+  useEffect(() => {
+    refreshDueCards();
+  }, [state]);
+
+  const openSavedLecture = (record: SavedLecture) => {
+    lectureAbortRef.current?.abort();
+    setShowNarration(false);
+    setLectureId(record.id);
+    lectureIdRef.current = record.id;
+    setLectureSource({ files: record.files, chapter: record.chapter, language: record.language });
+    setFiles(record.files);
+    setSelectedChapter(record.chapter);
+    setSelectedLanguage(record.language);
+    setTeachingLanguage(record.teachingLanguage ?? DEFAULT_TEACHING_LANGUAGE);
+    setLectureSettings(normalizeLectureSettings(record.settings));
+    setDetectedChapters([]);
+    setCourseLink(record.course ?? null);
+    if (record.course) {
+      getCourse(record.course.courseId)
+        .then(saved => setCourse(saved ?? null))
+        .catch(e => console.error("Failed to load course", e));
     }
+    setLecture(record.lecture);
+    // Older lectures stored a picsum.photos stand-in when drawing failed; draw those (and any gaps) again
+    const images: Record<number, string> = {};
+    Object.entries(record.generatedImages).forEach(([idx, url]) => {
+      if (!url.includes('picsum.photos')) images[Number(idx)] = url;
+    });
+    setGeneratedImages(images);
+    setImageJobs({});
+    record.lecture.sections.forEach((section, index) => {
+      if (!images[index] && visualTypeOf(section) === 'image') drawSectionImage(record.id, index, section.visualPrompt, section.visualAspectRatio);
+    });
+    setQuiz(normalizeQuiz(record.quiz));
+    setPracticeRound(0);
+    setQuizAttempts(record.quizAttempts);
+    setTranscripts(record.transcripts ?? []);
+    setQuizAnswers({});
+    setQuizGrades({});
+    setQuizSubmitted(false);
+    setState(AppState.LECTURE);
+  };
+
+  // Shows the loading screen and returns the signal its Cancel button aborts
+  const startLoading = (message: string) => {
+    const controller = new AbortController();
+    loadingAbortRef.current = controller;
+    setLoadingMessage(message);
+    setIsLoading(true);
+    return controller.signal;
+  };
+
+  const cancelLoading = () => {
+    loadingAbortRef.current?.abort();
+    loadingAbortRef.current = null;
+    setIsLoading(false);
+  };
+
+  // Files over the request limit are stopped here, before any API call
+  const ensureSendable = (toSend: UploadedFile[]) => {
+    const problem = payloadProblem(toSend);
+    if (!problem) return true;
+    const advice = { title: "These files are too large to send", message: problem };
+    if (state === AppState.UPLOAD) setUploadError(advice);
+    else showToast({ kind: 'error', ...advice });
+    return false;
   };
 
   const handleScanChapters = async () => {
     if (files.length === 0) return;
-    setIsLoading(true);
-    setLoadingMessage("Scanning book structure...");
+    setUploadError(null);
+    if (!ensureSendable(files)) return;
+    const signal = startLoading("Scanning book structure...");
     try {
-      const chapters = await extractChapters(files);
+      const chapters = await extractChapters(files, { signal });
       setDetectedChapters(chapters);
+      if (chapters.length > 0) {
+        saveBookChapters(describeSourceFiles(files), chapters).catch(e => console.error("Failed to save chapters", e));
+      }
       if (chapters.length === 0) {
-        alert("No clear chapters found. You can still generate a lecture for the whole file.");
+        showToast({ kind: 'info', title: "No clear chapters found", message: "You can still generate a lecture for the whole file." });
       }
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
-      alert("Failed to scan chapters.");
+      setUploadError(adviceFor(e, "scan for chapters"));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const startLectureGeneration = async () => {
-    if (files.length === 0) return;
-    setIsLoading(true);
-    setLoadingMessage(selectedChapter ? `Preparing lecture on "${selectedChapter}"...` : "Professor is analyzing your books...");
+  // --- Courses ---
+
+  const buildCourse = async () => {
+    if (files.length === 0 || detectedChapters.length === 0) return;
+    setUploadError(null);
+    if (!ensureSendable(files)) return;
+    const signal = startLoading("Planning your course...");
+    try {
+      const syllabus = await generateSyllabus(files, detectedChapters, selectedLanguage, teachingLanguage, lectureSettings, { signal });
+      const saved = await saveCourse(createCourse(files, syllabus, selectedLanguage, teachingLanguage, lectureSettings));
+      openCourse(saved);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error(e);
+      setUploadError(adviceFor(e, "plan the course"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openCourse = (saved: Course) => {
+    setCourse(saved);
+    setState(AppState.COURSE);
+    window.scrollTo({ top: 0 });
+  };
+
+  // Chapter lectures are written the first time the student starts them, then reopened from the library
+  const studyCourseChapter = async (chapterIndex: number) => {
+    if (!course) return;
+    const chapter = course.chapters[chapterIndex];
+    if (!chapter) return;
+    try {
+      const record = chapter.lectureId ? await getLecture(chapter.lectureId) : undefined;
+      if (record) {
+        openSavedLecture(record);
+        return;
+      }
+    } catch (e) {
+      console.error("Failed to open chapter lecture", e);
+    }
+    startLectureGeneration({
+      files: course.files,
+      language: course.language,
+      teachingLanguage: course.teachingLanguage,
+      settings: course.settings,
+      chapter: chapter.title,
+      course: { courseId: course.id, chapterIndex },
+    });
+  };
+
+  const startLectureGeneration = async (request: LectureRequest = {
+    files,
+    language: selectedLanguage,
+    teachingLanguage,
+    settings: lectureSettings,
+    chapter: selectedChapter,
+    course: null,
+  }) => {
+    if (request.files.length === 0) return;
+    setUploadError(null);
+    if (!ensureSendable(request.files)) return;
+    const controller = new AbortController();
+    lectureAbortRef.current = controller;
+    const newLectureId = createId();
+    const imagesStarted = new Map<number, string>(); // Section index to the prompt being drawn
+
+    // Queue a section's picture as soon as the section arrives; cancelling the lecture drops the queued ones.
+    // Text diagrams render locally and need no request. A repaired reply may bring a new prompt for the same section.
+    const requestSectionImage = (section: LectureSection, index: number) => {
+      if (imagesStarted.get(index) === section.visualPrompt || visualTypeOf(section) !== 'image') return;
+      imagesStarted.set(index, section.visualPrompt);
+      drawSectionImage(newLectureId, index, section.visualPrompt, '16:9', { signal: controller.signal });
+    };
+
+    setFiles(request.files);
+    setSelectedLanguage(request.language);
+    setTeachingLanguage(request.teachingLanguage);
+    setLectureSettings(request.settings);
+    setSelectedChapter(request.chapter);
+    setCourseLink(request.course);
+    setLecture({ title: '', summary: '', sections: [] });
+    setLectureId(newLectureId);
+    lectureIdRef.current = newLectureId;
+    setLectureSource({ files: request.files, chapter: request.chapter, language: request.language });
+    setGeneratedImages({});
+    setImageJobs({});
+    setQuiz([]);
+    setQuizAttempts([]);
+    setTranscripts([]);
+    setQuizAnswers({});
+    setQuizGrades({});
+    setQuizSubmitted(false);
+    setPracticeRound(0);
+    setIsStreamingLecture(true);
+    setState(AppState.LECTURE);
     
     try {
-      const content = await generateLecture(files, selectedLanguage, selectedChapter);
+      const content = await generateLecture(request.files, request.language, request.teachingLanguage, request.settings, request.chapter, {
+        signal: controller.signal,
+        onProgress: (partial) => {
+          setLecture({ title: partial.title ?? '', summary: partial.summary ?? '', sections: partial.sections });
+          partial.sections.forEach(requestSectionImage);
+        }
+      });
       setLecture(content);
+      content.sections.forEach(requestSectionImage);
       
-      // Start Image Generation in background
-      setLoadingMessage("Creating visual aids...");
-      content.sections.forEach(async (section, index) => {
-         const imageUrl = await generateLectureImage(section.visualPrompt);
-         setGeneratedImages(prev => ({...prev, [index]: imageUrl}));
+      const link = request.course;
+      if (link) {
+        updateCourse(link.courseId, c => linkChapterLecture(c, link.chapterIndex, newLectureId))
+          .then(updated => updated && setCourse(updated))
+          .catch(e => console.error("Failed to link the chapter lecture", e));
+      }
+
+      // Build the flashcard deck for this lecture in the background
+      generateFlashcards(content, request.teachingLanguage)
+        .then(cards => addFlashcards(newLectureId, 'lecture', cards))
+        .then(refreshDueCards)
+        .catch(e => console.error("Flashcard generation failed", e));
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error(e);
+      // Back on the upload form, where the advice (e.g. select fewer pages) can be acted on
+      setUploadError(adviceFor(e, "generate the lecture"));
+      setLecture(null);
+      setLectureId(null);
+      setLectureSource(null);
+      setState(AppState.UPLOAD);
+    } finally {
+      if (lectureAbortRef.current === controller) lectureAbortRef.current = null;
+      setIsStreamingLecture(false);
+    }
+  };
+
+  /**
+   * Draws (or redraws) a section's visual through the shared image queue. Results are
+   * dropped if another lecture has been opened meanwhile or a newer request replaced this one.
+   */
+  const drawSectionImage = (
+    ownerId: string,
+    index: number,
+    prompt: string,
+    aspectRatio: ImageAspectRatio = '16:9',
+    options: { signal?: AbortSignal; force?: boolean } = {}
+  ) => {
+    const requestId = (imageRequestRef.current[index] ?? 0) + 1;
+    imageRequestRef.current[index] = requestId;
+    const isCurrent = () => lectureIdRef.current === ownerId && imageRequestRef.current[index] === requestId;
+
+    setImageJobs(prev => ({ ...prev, [index]: { status: 'drawing' } }));
+    lectureImages.request(prompt, { aspectRatio, ...options })
+      .then(imageUrl => {
+        if (!isCurrent()) return;
+        setGeneratedImages(prev => ({ ...prev, [index]: imageUrl }));
+        setImageJobs(prev => {
+          const next = { ...prev };
+          delete next[index];
+          return next;
+        });
+      })
+      .catch(error => {
+        if (!isCurrent() || isAbortError(error)) return;
+        console.error("Image generation failed", error);
+        const { message } = adviceFor(error);
+        setImageJobs(prev => ({ ...prev, [index]: { status: 'error', message } }));
       });
+  };
 
+  // Student-initiated redraw: keeps the new prompt and shape with the section and skips the cache
+  const redrawSectionImage = (index: number, prompt: string, aspectRatio: ImageAspectRatio) => {
+    if (!lectureId) return;
+    setLecture(prev => prev && {
+      ...prev,
+      sections: prev.sections.map((section, i) => (i === index ? { ...section, visualType: 'image', visualPrompt: prompt, visualAspectRatio: aspectRatio } : section))
+    });
+    drawSectionImage(lectureId, index, prompt, aspectRatio, { force: true });
+  };
+
+  // Switches between the model's text diagram and a generated picture, drawing the picture on first use
+  const changeSectionVisualType = (index: number, visualType: VisualType) => {
+    if (!lecture || !lectureId) return;
+    const section = lecture.sections[index];
+    setLecture(prev => prev && {
+      ...prev,
+      sections: prev.sections.map((s, i) => (i === index ? { ...s, visualType } : s))
+    });
+    if (visualType === 'image' && !generatedImages[index] && !imageJobs[index]) {
+      drawSectionImage(lectureId, index, section.visualPrompt, section.visualAspectRatio);
+    }
+  };
+
+  // Puts the open lecture away (it stays in the library) so nothing more is saved into it
+  const closeLecture = () => {
+    lectureAbortRef.current?.abort();
+    setShowNarration(false);
+    setLecture(null);
+    setLectureId(null);
+    lectureIdRef.current = null;
+    setLectureSource(null);
+    setGeneratedImages({});
+    setImageJobs({});
+    setQuiz([]);
+    setQuizAttempts([]);
+    setTranscripts([]);
+    setQuizAnswers({});
+    setQuizGrades({});
+    setQuizSubmitted(false);
+    setPracticeRound(0);
+    setCourseLink(null);
+  };
+
+  const cancelLectureGeneration = () => {
+    closeLecture();
+    setState(AppState.UPLOAD);
+  };
+
+  // Saves a translated copy next to the original; the diagrams are reused as they are
+  const translateCurrentLecture = async (target: Language) => {
+    if (!lecture || target === teachingLanguage) return;
+    setShowNarration(false);
+    const signal = startLoading(`Translating the lecture into ${target}...`);
+    try {
+      const translated = await translateLecture(lecture, quiz, target, { signal });
+      const newLectureId = createId();
+      setLectureId(newLectureId);
+      lectureIdRef.current = newLectureId;
+      // The copy stands alone: the course chapter keeps the original lecture and its scores
+      setCourseLink(null);
+      setTeachingLanguage(target);
+      // Diagrams still being drawn belonged to the original; ask again for the copy (the queue's cache dedupes)
+      setImageJobs({});
+      translated.lecture.sections.forEach((section, index) => {
+        if (!generatedImages[index] && visualTypeOf(section) === 'image') drawSectionImage(newLectureId, index, section.visualPrompt, section.visualAspectRatio);
+      });
+      setLecture(translated.lecture);
+      setQuiz(translated.quiz);
+      setQuizAttempts([]);
+      setTranscripts([]);
+      setQuizAnswers({});
+      setQuizGrades({});
+      setQuizSubmitted(false);
+      setPracticeRound(0);
       setState(AppState.LECTURE);
+
+      generateFlashcards(translated.lecture, target)
+        .then(cards => addFlashcards(newLectureId, 'lecture', cards))
+        .then(refreshDueCards)
+        .catch(e => console.error("Flashcard generation failed", e));
     } catch (e) {
-      alert("Failed to generate lecture. Please try again.");
       console.error(e);
+      showErrorToast(e, "translate the lecture");
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleReadLecture = async () => {
-    if (isReadingLecture) {
-      if (stopTTSRef.current) stopTTSRef.current();
-      setIsReadingLecture(false);
-      return;
-    }
+  // Keep the section being narrated in view
+  useEffect(() => {
+    if (narratingSection === null) return;
+    document.getElementById(`section-${narratingSection}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [narratingSection]);
 
+  const startQuiz = async () => {
     if (!lecture) return;
+    const signal = startLoading("Preparing your quiz...");
+    try {
+      // Questions asked in Live Professor sessions steer the quiz toward what was unclear
+      const studentQuestions = transcripts.flatMap(t => t.turns.filter(turn => turn.role === 'student').map(turn => turn.text));
+      const questions = await generateQuiz(lecture, quizConfig, { studentQuestions, language: teachingLanguage, lectureSettings }, { signal });
+      beginQuiz(questions, 0);
+    } catch (e) {
+      console.error(e);
+      showErrorToast(e, "generate the quiz");
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-    setIsReadingLecture(true);
-    // Construct full text to read
-    let textToRead = `Welcome to the lecture on ${lecture.title}. ${lecture.summary}. `;
-    lecture.sections.forEach(s => {
-      textToRead += `${s.heading}. ${s.content}. `;
-    });
-
-    const stopFn = await playTTS(textToRead, () => setIsReadingLecture(false));
-    stopTTSRef.current = stopFn;
+  const beginQuiz = (questions: QuizQuestion[], round: number) => {
+    setQuiz(questions);
+    setQuizAnswers(initialAnswers(questions));
+    setQuizGrades({});
+    setQuizSubmitted(false);
+    setPracticeRound(round);
+    setState(AppState.QUIZ);
+    quizStartedAtRef.current = Date.now();
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const startQuiz = async () => {
+  // A new quiz weighted toward the concepts behind missed questions; repeated until every tested concept is mastered
+  const practiceWeakSpots = async () => {
     if (!lecture) return;
-    setIsLoading(true);
-    setLoadingMessage("Preparing your quiz...");
+    const focus = buildQuizFocus(quiz, quizGrades, estimateMastery(quizAttempts));
+    const signal = startLoading("Preparing practice on your weak spots...");
     try {
-      const questions = await generateQuiz(lecture);
-      setQuiz(questions);
-      setState(AppState.QUIZ);
+      const questions = await generateQuiz(lecture, quizConfig, { language: teachingLanguage, lectureSettings, focus }, { signal });
+      beginQuiz(questions, practiceRound + 1);
     } catch (e) {
-      alert("Could not generate quiz.");
+      console.error(e);
+      showErrorToast(e, "generate the practice quiz");
     } finally {
       setIsLoading(false);
     }
   };
 
-  const submitQuiz = () => {
-    setQuizSubmitted(true);
+  const submitQuiz = async () => {
+    setIsGrading(true);
+    try {
+      const grades = await gradeQuiz(quiz, quizAnswers, gradeShortAnswer);
+      setQuizGrades(grades);
+      setQuizSubmitted(true);
+      if (lectureId) {
+        addFlashcards(lectureId, 'quiz', flashcardsFromMistakes(quiz, grades))
+          .then(refreshDueCards)
+          .catch(e => console.error("Failed to add missed questions to the deck", e));
+      }
+      const completedAt = Date.now();
+      if (lectureId && lecture) {
+        recordQuizResult({
+          id: createId(),
+          lectureId,
+          lectureTitle: lecture.title,
+          chapter: selectedChapter,
+          bookId: bookIdFor(describeSourceFiles(files)),
+          startedAt: quizStartedAtRef.current || completedAt,
+          completedAt,
+          score: calculateScore(grades),
+          total: quiz.length,
+          practice: practiceRound > 0,
+          questions: questionResults(quiz, grades, lecture.sections.map(s => s.heading)),
+        }).catch(e => console.error("Failed to record quiz result", e));
+      }
+      if (courseLink) {
+        updateCourse(courseLink.courseId, c => recordChapterScore(c, courseLink.chapterIndex, calculateScore(grades) / Math.max(quiz.length, 1)))
+          .then(updated => updated && setCourse(updated))
+          .catch(e => console.error("Failed to record chapter progress", e));
+      }
+      setQuizAttempts(prev => [...prev, {
+        completedAt,
+        answers: quizAnswers,
+        grades,
+        score: calculateScore(grades),
+        total: quiz.length,
+        sectionScores: scoreBySection(quiz, grades),
+        practice: practiceRound > 0
+      }]);
+    } catch (e) {
+      console.error(e);
+      showErrorToast(e, "grade your answers");
+    } finally {
+      setIsGrading(false);
+    }
   };
 
-  const calculateScore = () => {
-    let score = 0;
-    quiz.forEach((q, i) => {
-      if (quizAnswers[i] === q.correctAnswerIndex) score++;
-    });
-    return score;
+  // Jump from quiz feedback back to the part of the lecture that covers it
+  const reviewSection = (sectionIndex: number) => {
+    setState(AppState.LECTURE);
+    setPendingScrollSection(sectionIndex);
   };
 
+  useEffect(() => {
+    if (pendingScrollSection === null || state !== AppState.LECTURE) return;
+    document.getElementById(`section-${pendingScrollSection}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    setPendingScrollSection(null);
+  }, [pendingScrollSection, state]);
+
+  // The highlight from a professor's "look at this" fades after a few seconds
+  useEffect(() => {
+    if (highlightedSection === null) return;
+    const timer = setTimeout(() => setHighlightedSection(null), 6000);
+    return () => clearTimeout(timer);
+  }, [highlightedSection]);
+
+  // Carries out what the Live Professor asks for; the returned text is read by the model
+  const handleProfessorToolCall = (call: LectureToolCall): string => {
+    if (!lecture) return "No lecture is open.";
+    switch (call.name) {
+      case 'show_section':
+        reviewSection(call.sectionIndex);
+        setHighlightedSection(call.sectionIndex);
+        return `Showing section ${call.sectionIndex + 1}: "${lecture.sections[call.sectionIndex].heading}".`;
+      case 'show_section_image':
+        if (visualTypeOf(lecture.sections[call.sectionIndex]) === 'image' && !generatedImages[call.sectionIndex]) return "That diagram is still being drawn.";
+        setZoomedImage(call.sectionIndex);
+        return "The diagram is open on screen.";
+      case 'ask_pop_quiz':
+        setPopQuiz(call.question);
+        return "The question is on screen. Wait for the student to answer before continuing.";
+      case 'regenerate_diagram': {
+        const index = call.sectionIndex;
+        redrawSectionImage(index, call.description, lecture.sections[index].visualAspectRatio ?? '16:9');
+        reviewSection(index);
+        return "Drawing the new diagram now; it will appear in a few seconds.";
+      }
+    }
+  };
+
+  // --- Routing ---
+
+  const currentRoute = (): AppRoute => {
+    switch (state) {
+      case AppState.LIBRARY:
+        return { view: 'library' };
+      case AppState.DASHBOARD:
+        return { view: 'progress' };
+      case AppState.REVIEW:
+        return { view: 'review' };
+      case AppState.COURSE:
+        return course ? { view: 'course', courseId: course.id } : { view: 'library' };
+      case AppState.LECTURE:
+        return lectureId ? { view: 'lecture', lectureId } : { view: 'upload' };
+      case AppState.QUIZ:
+        return lectureId ? { view: quizSubmitted ? 'results' : 'quiz', lectureId } : { view: 'upload' };
+      default:
+        return { view: 'upload' };
+    }
+  };
+
+  const leaveBrokenLink = (message: string) => {
+    showToast({ kind: 'error', title: "Couldn't open that link", message });
+    window.history.replaceState(null, '', formatRoute({ view: 'library' }));
+    setState(AppState.LIBRARY);
+  };
+
+  // Shows the screen a URL points to, loading the lecture or course from the library when it isn't open
+  const applyRoute = async (route: AppRoute) => {
+    switch (route.view) {
+      case 'upload':
+        setState(AppState.UPLOAD);
+        return;
+      case 'library':
+        setState(AppState.LIBRARY);
+        return;
+      case 'progress':
+        setState(AppState.DASHBOARD);
+        return;
+      case 'review':
+        setState(AppState.REVIEW);
+        return;
+      case 'course': {
+        const saved = course?.id === route.courseId ? course : await getCourse(route.courseId);
+        if (saved) openCourse(saved);
+        else leaveBrokenLink("That course is no longer in your library.");
+        return;
+      }
+    }
+
+    let record: SavedLecture | undefined;
+    if (lectureId !== route.lectureId) {
+      record = await getLecture(route.lectureId);
+      if (!record) {
+        leaveBrokenLink("That lecture isn't in your library. It may have been deleted or never finished.");
+        return;
+      }
+      openSavedLecture(record);
+    }
+    const questions = record ? normalizeQuiz(record.quiz) : quiz;
+    const attempts = record ? record.quizAttempts : quizAttempts;
+    const lastAttempt = attempts[attempts.length - 1];
+
+    if (route.view === 'lecture' || questions.length === 0) {
+      setState(AppState.LECTURE);
+      if (route.view === 'lecture' && route.sectionIndex !== undefined) setPendingScrollSection(route.sectionIndex);
+    } else if (route.view === 'quiz') {
+      // A finished quiz starts over; its results stay one step forward in history
+      if (record || quizSubmitted) beginQuiz(questions, record ? 0 : practiceRound);
+      else setState(AppState.QUIZ);
+    } else if (!record && quizSubmitted) {
+      setState(AppState.QUIZ);
+    } else if (lastAttempt && lastAttempt.total === questions.length) {
+      // The saved quiz is the one the latest attempt answered
+      setQuizAnswers(lastAttempt.answers);
+      setQuizGrades(lastAttempt.grades);
+      setQuizSubmitted(true);
+      setState(AppState.QUIZ);
+    } else {
+      setState(AppState.LECTURE);
+    }
+  };
+  applyRouteRef.current = applyRoute;
+
+  // Follow the URL on first load, on back and forward, and on section links
+  useEffect(() => {
+    const follow = () => {
+      setIsApplyingRoute(true);
+      applyRouteRef.current(parseRoute(window.location.hash))
+        .catch(e => console.error("Failed to open link", e))
+        .finally(() => setIsApplyingRoute(false));
+    };
+    follow();
+    window.addEventListener('popstate', follow);
+    return () => window.removeEventListener('popstate', follow);
+  }, []);
+
+  // Every new screen becomes a history entry
+  useEffect(() => {
+    if (isApplyingRoute) return;
+    const route = currentRoute();
+    if (!isSameScreen(route, parseRoute(window.location.hash))) {
+      window.history.pushState(null, '', formatRoute(route));
+    }
+  }, [state, lectureId, course?.id, quizSubmitted, isApplyingRoute]);
+
+  const calculateScore = (grades: Record<number, QuestionGrade> = quizGrades) => sumGrades(grades);
+  const payloadWarning = payloadProblem(files);
+  const mastery = estimateMastery(quizAttempts);
+
   // --- Views ---
 
   if (isLoading) {
@@ -151,6 +783,10 @@ export default function App() {
       <div className="min-h-screen flex flex-col items-center justify-center bg-stone-50 text-stone-800">
         <Loader className="w-12 h-12 animate-spin text-indigo-600 mb-4" />
         <h2 className="text-xl font-serif">{loadingMessage}</h2>
+        <button onClick={cancelLoading} className="mt-6 px-4 py-2 rounded-full text-sm font-medium text-stone-500 hover:bg-stone-100 transition-colors">
+          Cancel
+        </button>
+        <ToastViewport />
       </div>
     );
   }
@@ -164,15 +800,36 @@ export default function App() {
           <GraduationCap className="w-8 h-8 text-indigo-600" />
           <h1 className="text-xl font-serif font-bold tracking-tight text-stone-800">ProfAI</h1>
         </div>
-        {state !== AppState.UPLOAD && (
-           <button onClick={() => {
-             setState(AppState.UPLOAD);
-             setDetectedChapters([]);
-             setSelectedChapter('');
-           }} className="text-sm font-medium text-stone-500 hover:text-indigo-600 transition-colors">
-             New Class
-           </button>
-        )}
+        <div className="flex items-center gap-6">
+          {state !== AppState.REVIEW && (
+             <button onClick={() => setState(AppState.REVIEW)} className="text-sm font-medium text-stone-500 hover:text-indigo-600 transition-colors flex items-center gap-1">
+               <Layers className="w-4 h-4" /> Review
+               {dueCardCount > 0 && (
+                 <span className="ml-1 px-1.5 py-0.5 rounded-full bg-indigo-600 text-white text-[10px] font-bold leading-none">{dueCardCount}</span>
+               )}
+             </button>
+          )}
+          {state !== AppState.DASHBOARD && (
+             <button onClick={() => setState(AppState.DASHBOARD)} className="text-sm font-medium text-stone-500 hover:text-indigo-600 transition-colors flex items-center gap-1">
+               <BarChart3 className="w-4 h-4" /> Progress
+             </button>
+          )}
+          {state !== AppState.LIBRARY && (
+             <button onClick={() => setState(AppState.LIBRARY)} className="text-sm font-medium text-stone-500 hover:text-indigo-600 transition-colors flex items-center gap-1">
+               <Library className="w-4 h-4" /> Library
+             </button>
+          )}
+          {state !== AppState.UPLOAD && (
+             <button onClick={() => {
+               closeLecture();
+               setState(AppState.UPLOAD);
+               setDetectedChapters([]);
+               setSelectedChapter('');
+             }} className="text-sm font-medium text-stone-500 hover:text-indigo-600 transition-colors">
+               New Class
+             </button>
+          )}
+        </div>
       </header>
 
       <main className="pt-24 pb-20 px-6 max-w-5xl mx-auto">
@@ -199,30 +856,47 @@ export default function App() {
                     multiple 
                     accept="image/*,application/pdf" 
                     onChange={handleFileUpload}
+                    disabled={isPreparingFiles}
                     className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
                   />
                   <div className="border-2 border-dashed border-stone-300 rounded-xl p-8 flex flex-col items-center justify-center text-center group-hover:border-indigo-500 group-hover:bg-indigo-50/50 transition-all">
-                    <Upload className="w-10 h-10 text-stone-400 group-hover:text-indigo-500 mb-3" />
-                    <p className="font-medium text-stone-700">Click to upload book pages or PDFs</p>
-                    <p className="text-sm text-stone-400 mt-1">Supports JPG, PNG, PDF</p>
+                    {isPreparingFiles ? (
+                      <>
+                        <Loader className="w-10 h-10 text-indigo-500 animate-spin mb-3" />
+                        <p className="font-medium text-stone-700">Preparing your pages...</p>
+                      </>
+                    ) : (
+                      <>
+                        <Upload className="w-10 h-10 text-stone-400 group-hover:text-indigo-500 mb-3" />
+                        <p className="font-medium text-stone-700">Click to upload book pages or PDFs</p>
+                        <p className="text-sm text-stone-400 mt-1">Supports JPG, PNG, PDF</p>
+                      </>
+                    )}
                   </div>
                 </div>
 
-                {/* Preview */}
+                <button
+                  onClick={() => setShowCamera(true)}
+                  disabled={isPreparingFiles}
+                  className="w-full py-2 bg-stone-100 text-stone-700 hover:bg-stone-200 rounded-lg font-medium text-sm transition-colors flex items-center justify-center gap-2"
+                >
+                  <Camera className="w-4 h-4" />
+                  Scan Pages With Your Camera
+                </button>
+
+                {/* Pages, in the order they are sent */}
                 {files.length > 0 && (
-                  <div className="flex gap-2 overflow-x-auto pb-2">
-                    {files.map((f, i) => (
-                      <div key={i} className="w-16 h-16 shrink-0 rounded-lg overflow-hidden border border-stone-200 bg-stone-50 flex items-center justify-center">
-                        {f.mimeType.startsWith('image/') ? (
-                           <img src={`data:${f.mimeType};base64,${f.data}`} className="w-full h-full object-cover" alt="preview" />
-                        ) : (
-                           <FileText className="w-8 h-8 text-red-500" />
-                        )}
+                  <div className="space-y-2">
+                    <PageManager files={files} onChange={changeFiles} />
+                    <p className="text-xs text-stone-400">
+                      {files.length} {files.length === 1 ? 'file' : 'files'} &middot; Drag or use the arrows to reorder
+                    </p>
+                    {payloadWarning && (
+                      <div role="alert" className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                        <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                        <span>{payloadWarning}</span>
                       </div>
-                    ))}
-                    <div className="flex items-center justify-center w-16 h-16 text-xs text-stone-500 bg-stone-100 rounded-lg">
-                      {files.length} files
-                    </div>
+                    )}
                   </div>
                 )}
                 
@@ -232,7 +906,8 @@ export default function App() {
                      {detectedChapters.length === 0 ? (
                         <button
                           onClick={handleScanChapters}
-                          className="w-full py-2 bg-stone-100 text-stone-700 hover:bg-stone-200 rounded-lg font-medium text-sm transition-colors flex items-center justify-center gap-2"
+                          disabled={!!payloadWarning}
+                          className="w-full disabled:opacity-50 disabled:cursor-not-allowed py-2 bg-stone-100 text-stone-700 hover:bg-stone-200 rounded-lg font-medium text-sm transition-colors flex items-center justify-center gap-2"
                         >
                           <Search className="w-4 h-4" />
                           Scan for Chapters
@@ -274,29 +949,69 @@ export default function App() {
                 )}
 
                 {/* Language Select */}
-                <div>
-                  <label className="block text-sm font-medium text-stone-700 mb-2">Book Language</label>
-                  <select 
-                    value={selectedLanguage}
-                    onChange={(e) => setSelectedLanguage(e.target.value as Language)}
-                    className="w-full px-4 py-2 rounded-lg border border-stone-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
-                  >
-                    {Object.values(Language).map(lang => (
-                      <option key={lang} value={lang}>{lang}</option>
-                    ))}
-                  </select>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-stone-700 mb-2">Book Language</label>
+                    <select 
+                      value={selectedLanguage}
+                      onChange={(e) => setSelectedLanguage(e.target.value as Language)}
+                      className="w-full px-4 py-2 rounded-lg border border-stone-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                    >
+                      {Object.values(Language).map(lang => (
+                        <option key={lang} value={lang}>{lang}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-stone-700 mb-2">Teach Me In</label>
+                    <select 
+                      value={teachingLanguage}
+                      onChange={(e) => setTeachingLanguage(e.target.value as Language)}
+                      className="w-full px-4 py-2 rounded-lg border border-stone-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                    >
+                      {TEACHING_LANGUAGES.map(lang => (
+                        <option key={lang} value={lang}>{lang}</option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
 
+                {/* Audience, Style & Length */}
+                <LectureSettingsPanel settings={lectureSettings} onChange={setLectureSettings} />
+
+                {uploadError && (
+                  <div role="alert" className="flex items-start gap-3 p-4 rounded-xl bg-red-50 border border-red-200">
+                    <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5 text-red-600" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-red-800">{uploadError.title}</p>
+                      <p className="text-sm text-red-700 mt-0.5">{uploadError.message}</p>
+                    </div>
+                    <button onClick={() => setUploadError(null)} className="p-1 rounded-full hover:bg-red-100 text-red-400" title="Dismiss">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+
                 <button 
-                  onClick={startLectureGeneration}
-                  disabled={files.length === 0}
+                  onClick={() => startLectureGeneration()}
+                  disabled={files.length === 0 || !!payloadWarning}
                   className={`w-full py-3.5 rounded-xl font-semibold text-white shadow-lg transition-all flex items-center justify-center gap-2
-                    ${files.length > 0 ? 'bg-indigo-600 hover:bg-indigo-700 hover:shadow-indigo-500/30' : 'bg-stone-300 cursor-not-allowed'}
+                    ${files.length > 0 && !payloadWarning ? 'bg-indigo-600 hover:bg-indigo-700 hover:shadow-indigo-500/30' : 'bg-stone-300 cursor-not-allowed'}
                   `}
                 >
                   <BookOpen className="w-5 h-5" />
                   {selectedChapter ? "Teach This Chapter" : "Start Lecture"}
                 </button>
+                {detectedChapters.length > 1 && (
+                  <button
+                    onClick={buildCourse}
+                    disabled={!!payloadWarning}
+                    className="w-full disabled:opacity-50 disabled:cursor-not-allowed py-3 rounded-xl font-semibold text-indigo-700 bg-indigo-50 hover:bg-indigo-100 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Route className="w-5 h-5" />
+                    Build a Course From All {detectedChapters.length} Chapters
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -304,29 +1019,61 @@ export default function App() {
 
         {/* Lecture View */}
         {state === AppState.LECTURE && lecture && (
-          <div className="space-y-12 animate-fade-in pb-24">
+          <div className="space-y-12 animate-fade-in pb-24" dir={isRightToLeft(teachingLanguage) ? 'rtl' : undefined}>
             
             {/* Lecture Hero */}
             <div className="bg-white rounded-3xl p-8 md:p-12 shadow-sm border border-stone-100 relative overflow-hidden">
               <div className="relative z-10 max-w-3xl">
+                {courseLink && course?.id === courseLink.courseId && (
+                  <button onClick={() => openCourse(course)} className="block text-sm text-stone-500 hover:text-indigo-600 mb-4">
+                    &larr; {course.title} &middot; Chapter {courseLink.chapterIndex + 1} of {course.chapters.length}
+                  </button>
+                )}
                 <span className="inline-block px-3 py-1 bg-indigo-100 text-indigo-700 rounded-full text-xs font-bold uppercase tracking-wide mb-4">
                   {selectedChapter ? "Chapter Focus" : "Full Lecture"}
                 </span>
-                <h2 className="text-4xl md:text-5xl font-serif font-medium text-stone-900 mb-6">{lecture.title}</h2>
-                <p className="text-xl text-stone-600 leading-relaxed">{lecture.summary}</p>
+                <span className="inline-block ml-2 text-xs font-medium text-stone-400 mb-4">{describeLectureSettings(lectureSettings)}</span>
+                {lecture.title ? (
+                  <h2 className="text-4xl md:text-5xl font-serif font-medium text-stone-900 mb-6">{lecture.title}</h2>
+                ) : (
+                  <div className="h-12 w-2/3 bg-stone-100 rounded-xl animate-pulse mb-6" />
+                )}
+                {lecture.summary ? (
+                  <p className="text-xl text-stone-600 leading-relaxed">{lecture.summary}</p>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="h-5 bg-stone-100 rounded animate-pulse" />
+                    <div className="h-5 w-4/5 bg-stone-100 rounded animate-pulse" />
+                  </div>
+                )}
               </div>
               <div className="absolute top-0 right-0 w-1/3 h-full bg-gradient-to-l from-indigo-50/50 to-transparent pointer-events-none"></div>
             </div>
 
             {/* Controls Bar (Sticky) */}
             <div className="sticky top-20 z-30 flex justify-center gap-4 pointer-events-none">
+              {isStreamingLecture ? (
+              <div className="bg-white/90 backdrop-blur-md shadow-xl border border-stone-200 rounded-full p-2 pl-6 flex items-center gap-4 pointer-events-auto">
+                <Loader className="w-5 h-5 animate-spin text-indigo-600" />
+                <span className="text-sm font-medium text-stone-600">
+                  {selectedChapter ? `Writing lecture on "${selectedChapter}"...` : "Professor is writing your lecture..."}
+                  {lecture.sections.length > 0 && ` ${lecture.sections.length} sections ready`}
+                </span>
+                <button
+                  onClick={cancelLectureGeneration}
+                  className="flex items-center gap-2 px-5 py-2.5 rounded-full font-medium bg-red-500/10 text-red-600 hover:bg-red-500/20 transition-all"
+                >
+                  <StopCircle className="w-5 h-5" /> Cancel
+                </button>
+              </div>
+              ) : (
               <div className="bg-white/90 backdrop-blur-md shadow-xl border border-stone-200 rounded-full p-2 flex gap-2 pointer-events-auto">
                 <button 
-                  onClick={handleReadLecture}
-                  className={`flex items-center gap-2 px-6 py-3 rounded-full font-medium transition-all ${isReadingLecture ? 'bg-red-500 text-white hover:bg-red-600' : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}
+                  onClick={() => setShowNarration(show => !show)}
+                  className={`flex items-center gap-2 px-6 py-3 rounded-full font-medium transition-all ${showNarration ? 'bg-red-500 text-white hover:bg-red-600' : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}
                 >
-                  {isReadingLecture ? <StopCircle className="w-5 h-5"/> : <Volume2 className="w-5 h-5" />}
-                  {isReadingLecture ? "Stop Reading" : "Read Lecture"}
+                  {showNarration ? <StopCircle className="w-5 h-5"/> : <Volume2 className="w-5 h-5" />}
+                  {showNarration ? "Stop Reading" : "Read Lecture"}
                 </button>
                 <button 
                   onClick={() => setShowLiveProfessor(true)}
@@ -335,46 +1082,89 @@ export default function App() {
                   <MessageSquare className="w-5 h-5" />
                   Ask Professor
                 </button>
+                <ExportMenu source={{ lecture, generatedImages, quiz, transcripts, sourceFiles: files }} />
+                <label className="flex items-center gap-2 px-4 rounded-full font-medium bg-stone-100 text-stone-700 hover:bg-stone-200 transition-all border border-stone-200 cursor-pointer" title="Save a translated copy of this lecture">
+                  <Languages className="w-5 h-5" />
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && translateCurrentLecture(e.target.value as Language)}
+                    className="bg-transparent py-3 focus:outline-none cursor-pointer"
+                  >
+                    <option value="">Translate</option>
+                    {TEACHING_LANGUAGES.filter(lang => lang !== teachingLanguage).map(lang => (
+                      <option key={lang} value={lang}>{lang}</option>
+                    ))}
+                  </select>
+                </label>
               </div>
+              )}
             </div>
 
             {/* Lecture Content */}
             <div className="space-y-16 max-w-3xl mx-auto">
               {lecture.sections.map((section, idx) => (
-                <div key={idx} className="group">
+                <div
+                  key={idx}
+                  id={`section-${idx}`}
+                  className={`group scroll-mt-40 transition-all duration-500 ${narratingSection === idx || highlightedSection === idx ? 'bg-indigo-50/60 ring-1 ring-indigo-200 rounded-3xl p-6 -mx-6' : ''}`}
+                >
                   <div className="flex items-baseline gap-4 mb-4">
                     <span className="text-4xl font-serif text-stone-200 font-bold">{idx + 1}</span>
                     <h3 className="text-2xl font-serif font-medium text-stone-800">{section.heading}</h3>
+                    {lectureId && !isStreamingLecture && (
+                      <a
+                        href={formatRoute({ view: 'lecture', lectureId, sectionIndex: idx })}
+                        className="self-center text-stone-300 hover:text-indigo-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                        title="Link to this section"
+                      >
+                        <Link2 className="w-4 h-4" />
+                      </a>
+                    )}
                   </div>
                   
-                  <div className="prose prose-lg prose-stone text-stone-600 mb-8">
-                    <p>{section.content}</p>
-                  </div>
+                  <MarkdownText text={section.content} className="prose prose-lg prose-stone max-w-none text-stone-600 mb-8" />
 
-                  {/* Visual Aid */}
-                  <div className="bg-stone-100 rounded-2xl overflow-hidden border border-stone-200 aspect-video relative flex items-center justify-center">
-                    {generatedImages[idx] ? (
-                      <img 
-                        src={generatedImages[idx]} 
-                        alt={section.visualPrompt} 
-                        className="w-full h-full object-cover transition-transform duration-700 hover:scale-105"
-                      />
-                    ) : (
-                      <div className="flex flex-col items-center text-stone-400">
-                        <ImageIcon className="w-8 h-8 mb-2 animate-pulse" />
-                        <span className="text-sm">Drawing diagram...</span>
-                      </div>
-                    )}
-                    <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/60 to-transparent p-4 opacity-0 group-hover:opacity-100 transition-opacity">
-                      <p className="text-white text-xs">{section.visualPrompt}</p>
+                  {/* Source Citations */}
+                  {section.citations && section.citations.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 -mt-4 mb-8 text-sm">
+                      <span className="text-stone-400 font-medium">Sources:</span>
+                      {section.citations.map((citation, cIdx) => (
+                        <button
+                          key={cIdx}
+                          onClick={() => setOpenCitation(citation)}
+                          title={`"${citation.quote}"`}
+                          className="px-3 py-1 rounded-full bg-stone-100 text-stone-600 border border-stone-200 hover:bg-indigo-50 hover:text-indigo-700 hover:border-indigo-200 transition-colors"
+                        >
+                          [{cIdx + 1}] {formatCitation(citation, files)}
+                        </button>
+                      ))}
                     </div>
-                  </div>
+                  )}
+
+                  {/* Visual Aid */}
+                  <SectionVisual
+                    section={section}
+                    imageUrl={generatedImages[idx]}
+                    job={imageJobs[idx]}
+                    onRedraw={(prompt, aspectRatio) => redrawSectionImage(idx, prompt, aspectRatio)}
+                    onChangeType={(visualType) => changeSectionVisualType(idx, visualType)}
+                  />
                 </div>
               ))}
+              {isStreamingLecture && (
+                <div className="flex items-center gap-4 text-stone-400 animate-pulse">
+                  <span className="text-4xl font-serif text-stone-200 font-bold">{lecture.sections.length + 1}</span>
+                  <span className="font-serif text-xl">Writing the next section...</span>
+                </div>
+              )}
             </div>
 
             {/* Action Footer */}
-            <div className="max-w-3xl mx-auto pt-8 border-t border-stone-200 flex justify-end">
+            {!isStreamingLecture && (
+            <div className="max-w-3xl mx-auto pt-8 border-t border-stone-200 flex flex-col md:flex-row md:items-end gap-6 justify-between">
+              <div className="flex-1 max-w-md">
+                <QuizSettings config={quizConfig} onChange={setQuizConfig} />
+              </div>
               <button 
                 onClick={startQuiz}
                 className="flex items-center gap-2 px-8 py-4 bg-stone-900 text-white rounded-full font-semibold hover:bg-stone-800 transition-all shadow-lg hover:shadow-xl hover:-translate-y-1"
@@ -382,56 +1172,35 @@ export default function App() {
                 Take Quiz <ArrowRight className="w-5 h-5" />
               </button>
             </div>
+            )}
           </div>
         )}
 
         {/* Quiz View */}
         {state === AppState.QUIZ && (
-          <div className="max-w-2xl mx-auto space-y-8 animate-fade-in">
+          <div className="max-w-2xl mx-auto space-y-8 animate-fade-in" dir={isRightToLeft(teachingLanguage) ? 'rtl' : undefined}>
              <button onClick={() => setState(AppState.LECTURE)} className="text-sm text-stone-500 hover:text-stone-800 mb-4 flex items-center gap-1">
                &larr; Back to Lecture
              </button>
 
              <div className="bg-white rounded-3xl p-8 shadow-sm border border-stone-100">
-               <h2 className="text-3xl font-serif font-medium mb-8">Knowledge Check</h2>
+               <h2 className="text-3xl font-serif font-medium mb-8">
+                 {practiceRound > 0 ? `Weak-Spot Practice · Round ${practiceRound}` : "Knowledge Check"}
+               </h2>
                
                <div className="space-y-8">
                  {quiz.map((q, idx) => (
-                   <div key={idx} className="pb-8 border-b border-stone-100 last:border-0 last:pb-0">
-                     <p className="text-lg font-medium text-stone-800 mb-4">{idx + 1}. {q.question}</p>
-                     <div className="space-y-3">
-                       {q.options.map((opt, optIdx) => {
-                         const isSelected = quizAnswers[idx] === optIdx;
-                         const isCorrect = q.correctAnswerIndex === optIdx;
-                         const showResult = quizSubmitted;
-                         
-                         let btnClass = "w-full text-left p-4 rounded-xl border transition-all ";
-                         
-                         if (showResult) {
-                           if (isCorrect) btnClass += "bg-green-50 border-green-200 text-green-800";
-                           else if (isSelected && !isCorrect) btnClass += "bg-red-50 border-red-200 text-red-800";
-                           else btnClass += "bg-white border-stone-200 opacity-50";
-                         } else {
-                           if (isSelected) btnClass += "bg-indigo-50 border-indigo-200 ring-1 ring-indigo-200 text-indigo-900";
-                           else btnClass += "bg-white border-stone-200 hover:bg-stone-50 text-stone-600";
-                         }
-
-                         return (
-                           <button
-                             key={optIdx}
-                             onClick={() => !quizSubmitted && setQuizAnswers(prev => ({...prev, [idx]: optIdx}))}
-                             className={btnClass}
-                             disabled={quizSubmitted}
-                           >
-                             <div className="flex items-center justify-between">
-                               <span>{opt}</span>
-                               {showResult && isCorrect && <CheckCircle className="w-5 h-5 text-green-600" />}
-                             </div>
-                           </button>
-                         )
-                       })}
-                     </div>
-                   </div>
+                   <QuizQuestionCard
+                     key={idx}
+                     question={q}
+                     index={idx}
+                     answer={quizAnswers[idx]}
+                     onAnswer={(answer) => !quizSubmitted && setQuizAnswers(prev => ({...prev, [idx]: answer}))}
+                     submitted={quizSubmitted}
+                     grade={quizGrades[idx]}
+                     sectionHeading={q.sectionIndex !== undefined ? lecture?.sections[q.sectionIndex]?.heading : undefined}
+                     onReviewSection={reviewSection}
+                   />
                  ))}
                </div>
              </div>
@@ -439,23 +1208,45 @@ export default function App() {
              {!quizSubmitted ? (
                <button 
                 onClick={submitQuiz}
-                disabled={Object.keys(quizAnswers).length !== quiz.length}
-                className="w-full py-4 bg-indigo-600 text-white rounded-xl font-bold shadow-lg hover:bg-indigo-700 disabled:bg-stone-300 disabled:cursor-not-allowed transition-all"
+                disabled={isGrading || !quiz.every((_, idx) => isAnswered(quizAnswers[idx]))}
+                className="w-full py-4 bg-indigo-600 text-white rounded-xl font-bold shadow-lg hover:bg-indigo-700 disabled:bg-stone-300 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
                >
-                 Submit Quiz
+                 {isGrading && <Loader className="w-5 h-5 animate-spin" />}
+                 {isGrading ? "Grading..." : "Submit Quiz"}
                </button>
              ) : (
                <div className="bg-stone-900 text-white p-8 rounded-2xl text-center space-y-4">
                  <p className="text-stone-400 uppercase tracking-wider text-sm font-bold">Your Score</p>
-                 <p className="text-6xl font-serif">{calculateScore()} / {quiz.length}</p>
+                 <p className="text-6xl font-serif">{formatScore(calculateScore())} / {quiz.length}</p>
+                 {mastery.length > 0 && lecture && (
+                   <div className="pt-4">
+                     <MasteryReport mastery={mastery} sections={lecture.sections} onReviewSection={reviewSection} />
+                   </div>
+                 )}
+                 {courseLink && course?.id === courseLink.courseId && (
+                   <p className={`font-medium pt-2 ${calculateScore() / Math.max(quiz.length, 1) >= COURSE_PASS_MARK ? 'text-green-300' : 'text-amber-300'}`}>
+                     {calculateScore() / Math.max(quiz.length, 1) >= COURSE_PASS_MARK
+                       ? "Chapter passed. The chapters that build on it are now open."
+                       : `Score ${Math.round(COURSE_PASS_MARK * 100)}% or more to pass this chapter.`}
+                   </p>
+                 )}
+                 {isMastered(mastery) ? (
+                   <p className="text-green-300 font-medium pt-2">
+                     Every concept you've been tested on is above {Math.round(MASTERY_THRESHOLD * 100)}% mastery.
+                   </p>
+                 ) : mastery.length > 0 && (
+                   <button
+                    onClick={practiceWeakSpots}
+                    className="inline-flex items-center gap-2 px-6 py-2 bg-indigo-500 hover:bg-indigo-400 rounded-full mt-4 mr-2 font-semibold transition-colors"
+                   >
+                     <Target className="w-4 h-4" /> Practice My Weak Spots
+                   </button>
+                 )}
                  <button 
                   onClick={() => {
+                    closeLecture();
                     setState(AppState.UPLOAD);
                     setFiles([]);
-                    setLecture(null);
-                    setQuizAnswers({});
-                    setQuizSubmitted(false);
-                    setGeneratedImages({});
                     setDetectedChapters([]);
                     setSelectedChapter('');
                   }}
@@ -463,21 +1254,104 @@ export default function App() {
                  >
                    Start New Class
                  </button>
+                 {courseLink && course?.id === courseLink.courseId && (
+                   <button
+                    onClick={() => openCourse(course)}
+                    className="inline-flex items-center gap-2 px-6 py-2 bg-indigo-500 hover:bg-indigo-400 rounded-full mt-4 ml-2 font-semibold transition-colors"
+                   >
+                     <Route className="w-4 h-4" /> Back to Course
+                   </button>
+                 )}
                </div>
              )}
           </div>
         )}
 
+        {/* Library View */}
+        {state === AppState.LIBRARY && (
+          <LectureLibrary onOpen={openSavedLecture} onOpenCourse={openCourse} />
+        )}
+
+        {/* Progress Dashboard */}
+        {state === AppState.DASHBOARD && (
+          <ProgressDashboard onOpenLecture={openSavedLecture} />
+        )}
+
+        {/* Course Syllabus & Final Exam */}
+        {state === AppState.COURSE && course && (
+          <CourseView key={course.id} course={course} onCourseChange={setCourse} onStudyChapter={studyCourseChapter} />
+        )}
+
+        {/* Flashcard Review */}
+        {state === AppState.REVIEW && (
+          <FlashcardReview onSessionChange={refreshDueCards} />
+        )}
+
       </main>
 
-      {/* Live Professor Modal */}
+      {/* Narration Player */}
+      {showNarration && state === AppState.LECTURE && lecture && !isStreamingLecture && (
+        <NarrationPlayer
+          lecture={lecture}
+          language={teachingLanguage}
+          onSectionChange={setNarratingSection}
+          onClose={() => setShowNarration(false)}
+        />
+      )}
+
+      {/* Diagram opened by the Live Professor */}
+      {zoomedImage !== null && lecture?.sections[zoomedImage] && (visualTypeOf(lecture.sections[zoomedImage]) !== 'image' || generatedImages[zoomedImage]) && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/80 backdrop-blur-sm p-8" onClick={() => setZoomedImage(null)}>
+          <div className="max-w-5xl w-full space-y-4" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between text-white">
+              <h3 className="text-xl font-serif">{lecture.sections[zoomedImage]?.heading}</h3>
+              <button onClick={() => setZoomedImage(null)} className="p-2 rounded-full hover:bg-white/10" title="Close">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            {visualTypeOf(lecture.sections[zoomedImage]) === 'image' ? (
+              <img src={generatedImages[zoomedImage]} alt={lecture.sections[zoomedImage].visualPrompt} className="w-full rounded-2xl shadow-2xl" />
+            ) : (
+              <div className="bg-white rounded-2xl shadow-2xl">
+                <DiagramView section={lecture.sections[zoomedImage]} />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Cited page from the uploaded files */}
+      {openCitation && (
+        <SourceViewer files={files} citation={openCitation} onClose={() => setOpenCitation(null)} />
+      )}
+
+      {/* Pop Quiz from the Live Professor */}
+      {popQuiz && (
+        <PopQuiz
+          question={popQuiz}
+          sectionHeading={popQuiz.sectionIndex !== undefined ? lecture?.sections[popQuiz.sectionIndex]?.heading : undefined}
+          onReviewSection={(index) => { setPopQuiz(null); reviewSection(index); }}
+          onClose={() => setPopQuiz(null)}
+        />
+      )}
+
+      {/* Live Professor */}
       {showLiveProfessor && (
         <LiveProfessor 
           files={files} 
           onClose={() => setShowLiveProfessor(false)}
+          onSessionEnd={(transcript) => setTranscripts(prev => [...prev, transcript])}
           contextSummary={lecture ? `${lecture.title}: ${lecture.summary}` : "Uploaded book pages"}
+          language={teachingLanguage}
+          settings={lectureSettings}
+          sectionHeadings={lecture?.sections.map(s => s.heading)}
+          onToolCall={handleProfessorToolCall}
         />
       )}
+
+      {showCamera && <CameraCapture onCapture={addFiles} onClose={() => setShowCamera(false)} />}
+
+      <ToastViewport />
       
       <style>{`
         @keyframes fade-in {
@@ -0,0 +1,248 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UploadedFile } from '../types';
+import { Pixels, Quad, detectPageCorners, scaleQuad, scanPage } from '../services/pageScan';
+import { MAX_IMAGE_DIMENSION, canvasToUploadedFile } from '../services/uploads';
+import { showToast } from '../services/toasts';
+import { Camera, X, Loader2, Check, Wand2 } from 'lucide-react';
+
+interface CameraCaptureProps {
+  /** Receives the scanned pages, in the order they were taken. */
+  onCapture: (files: UploadedFile[]) => void;
+  onClose: () => void;
+}
+
+const DETECT_SIZE = 320; // Longest side of the frame searched for the page
+const DETECT_INTERVAL_MS = 300;
+
+const describeCameraError = (err: unknown) => {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError') return "Camera access was blocked. Allow it in your browser's site settings, or upload photos instead.";
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return "No camera was found on this device. Upload photos instead.";
+  if (name === 'NotReadableError') return "The camera is in use by another app. Close it and try again.";
+  return "Could not start the camera. Upload photos instead.";
+};
+
+// Draws the current video frame, shrunk so its longest side is at most `maxSide`
+const grabFrame = (video: HTMLVideoElement, maxSide: number) => {
+  const scale = Math.min(1, maxSide / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const toCanvas = (page: Pixels) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = page.width;
+  canvas.height = page.height;
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(page.width, page.height);
+  image.data.set(page.data);
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+// Live camera view that outlines the page it finds and scans each shot flat, for several pages in a row
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [error, setError] = useState('');
+  const [isReady, setIsReady] = useState(false);
+  const [outline, setOutline] = useState<Quad | null>(null); // In 0-1 frame coordinates
+  const [enhance, setEnhance] = useState(true);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [captured, setCaptured] = useState<UploadedFile[]>([]);
+  const [isConfirmingClose, setIsConfirmingClose] = useState(false);
+  const shotCountRef = useRef(0); // Numbers the pages; removing one doesn't reuse its name
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("This browser can't use the camera here. Upload photos instead.");
+      return;
+    }
+    navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false,
+    })
+      .then(s => {
+        stream = s;
+        if (cancelled || !videoRef.current) {
+          s.getTracks().forEach(t => t.stop());
+          return;
+        }
+        videoRef.current.srcObject = s;
+        return videoRef.current.play().then(() => setIsReady(true));
+      })
+      .catch(err => {
+        console.error("Failed to start the camera", err);
+        setError(describeCameraError(err));
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  // Keep looking for the page so the student can line up the shot
+  useEffect(() => {
+    if (!isReady) return;
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video?.videoWidth) return;
+      const frame = grabFrame(video, DETECT_SIZE);
+      const quad = detectPageCorners(frame);
+      setOutline(quad && scaleQuad(quad, 1 / frame.width, 1 / frame.height));
+    }, DETECT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isReady]);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video?.videoWidth || isCapturing) return;
+    setIsCapturing(true);
+    // Let the button show that it's working before the processing holds up the page
+    setTimeout(() => {
+      try {
+        const frame = grabFrame(video, Infinity);
+        const preview = grabFrame(video, DETECT_SIZE);
+        const quad = detectPageCorners(preview);
+        const page = scanPage(frame, quad && scaleQuad(quad, frame.width / preview.width, frame.height / preview.height), {
+          maxDimension: MAX_IMAGE_DIMENSION,
+          enhance,
+        });
+        const file = canvasToUploadedFile(toCanvas(page), `Camera page ${++shotCountRef.current}.jpg`);
+        setCaptured(prev => [...prev, file]);
+      } catch (e) {
+        console.error("Failed to scan the page", e);
+        showToast({ kind: 'error', title: "Couldn't scan that page", message: "Try again with the whole page in view." });
+      } finally {
+        setIsCapturing(false);
+      }
+    }, 0);
+  };
+
+  const finish = () => {
+    if (captured.length > 0) onCapture(captured);
+    onClose();
+  };
+
+  // Closing with scanned pages asks first, since they exist nowhere else yet
+  const close = () => {
+    if (captured.length > 0) setIsConfirmingClose(true);
+    else onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 md:p-8">
+      <div className="bg-stone-900 text-stone-100 rounded-3xl shadow-2xl w-full max-w-3xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-stone-800">
+          <p className="flex items-center gap-2 font-medium">
+            <Camera className="w-5 h-5 text-indigo-400" /> Scan Pages
+          </p>
+          <button onClick={close} className="p-2 hover:bg-stone-800 rounded-full transition-colors" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="relative bg-black flex-1 min-h-0 flex items-center justify-center">
+          {error ? (
+            <p className="p-10 text-center text-stone-300">{error}</p>
+          ) : (
+            <div className="relative">
+              <video ref={videoRef} playsInline muted className="block max-h-[60vh] w-auto max-w-full" />
+              {outline && (
+                <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+                  <polygon
+                    points={outline.map(p => `${p.x},${p.y}`).join(' ')}
+                    fill="rgba(99, 102, 241, 0.15)"
+                    stroke="#818cf8"
+                    strokeWidth={3}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </svg>
+              )}
+              {!isReady && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <Loader2 className="w-8 h-8 animate-spin text-indigo-400" />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {captured.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto px-6 pt-4">
+            {captured.map((f, i) => (
+              <div key={f.name} className="relative w-14 h-14 shrink-0 rounded-lg overflow-hidden border border-stone-700">
+                <img src={`data:${f.mimeType};base64,${f.data}`} className="w-full h-full object-cover" alt={f.name} />
+                <button
+                  onClick={() => setCaptured(prev => prev.filter((_, j) => j !== i))}
+                  className="absolute top-0.5 right-0.5 p-0.5 rounded-full bg-black/60 text-white hover:bg-red-600"
+                  title="Remove"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isConfirmingClose ? (
+          <div role="alertdialog" aria-label="Discard scanned pages?" className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 bg-stone-800/60">
+            <p className="text-sm">
+              Discard {captured.length} scanned {captured.length === 1 ? 'page' : 'pages'}?
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setIsConfirmingClose(false)}
+                className="px-4 py-2 rounded-full text-sm font-medium text-stone-300 hover:bg-stone-700 transition-colors"
+                autoFocus
+              >
+                Keep Scanning
+              </button>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 rounded-full text-sm font-medium bg-red-500/20 text-red-200 border border-red-500/30 hover:bg-red-500/30 transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={finish}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-full text-sm font-medium hover:bg-indigo-700 transition-colors"
+              >
+                <Check className="w-4 h-4" /> Add {captured.length === 1 ? 'It' : 'Them'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-4 px-6 py-4">
+            <label className="flex items-center gap-2 text-sm text-stone-300 cursor-pointer">
+              <input type="checkbox" checked={enhance} onChange={(e) => setEnhance(e.target.checked)} className="text-indigo-600 focus:ring-indigo-500" />
+              <Wand2 className="w-4 h-4" /> Fix shadows &amp; contrast
+            </label>
+            <button
+              onClick={capture}
+              disabled={!isReady || isCapturing || !!error}
+              className="w-16 h-16 rounded-full bg-white text-stone-900 flex items-center justify-center shadow-lg hover:bg-indigo-50 disabled:opacity-40 transition-colors"
+              title={outline ? "Capture page" : "Capture the whole frame (no page found)"}
+            >
+              {isCapturing ? <Loader2 className="w-7 h-7 animate-spin" /> : <Camera className="w-7 h-7" />}
+            </button>
+            <button
+              onClick={finish}
+              disabled={captured.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-full text-sm font-medium hover:bg-indigo-700 disabled:opacity-40 transition-colors"
+            >
+              <Check className="w-4 h-4" /> Add {captured.length} {captured.length === 1 ? 'Page' : 'Pages'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { Course, LectureContent, QuizAnswer, QuizQuestion, QuestionGrade } from '../types';
+import { COURSE_PASS_MARK, buildExamLecture, examQuestionCount, isChapterUnlocked, isExamUnlocked, passedChapterCount, recordExamAttempt, updateCourse } from '../services/courses';
+import { getLecture } from '../services/library';
+import { generateQuiz, gradeShortAnswer } from '../services/gemini';
+import { DEFAULT_QUIZ_CONFIG, formatScore, gradeQuiz, initialAnswers, isAnswered, sumGrades } from '../services/quiz';
+import { questionResults, recordQuizResult, bookIdFor } from '../services/progress';
+import { scoreBySection } from '../services/mastery';
+import { describeLectureSettings } from '../services/lectureSettings';
+import { isRightToLeft } from '../services/language';
+import { createId } from '../services/db';
+import { showErrorToast, showToast } from '../services/toasts';
+import MarkdownText from './MarkdownText';
+import QuizQuestionCard from './QuizQuestionCard';
+import { Route, Lock, CheckCircle, Circle, BookOpen, Play, Award, Loader2 } from 'lucide-react';
+
+interface CourseViewProps {
+  course: Course;
+  onCourseChange: (course: Course) => void;
+  /** Opens the chapter's lecture, generating it first if it has not been written yet. */
+  onStudyChapter: (chapterIndex: number) => void;
+}
+
+interface FinalExam {
+  lecture: LectureContent;
+  sectionChapters: number[];
+  questions: QuizQuestion[];
+  startedAt: number;
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+// Syllabus with per-chapter status, and the cumulative final exam once every chapter is passed
+const CourseView: React.FC<CourseViewProps> = ({ course, onCourseChange, onStudyChapter }) => {
+  const [exam, setExam] = useState<FinalExam | null>(null);
+  const [isPreparingExam, setIsPreparingExam] = useState(false);
+  const [answers, setAnswers] = useState<Record<number, QuizAnswer>>({});
+  const [grades, setGrades] = useState<Record<number, QuestionGrade>>({});
+  const [submitted, setSubmitted] = useState(false);
+  const [isGrading, setIsGrading] = useState(false);
+
+  const examUnlocked = isExamUnlocked(course);
+  const bestExam = course.examAttempts.length > 0
+    ? Math.max(...course.examAttempts.map(a => a.score / Math.max(a.total, 1)))
+    : null;
+
+  const startExam = async () => {
+    setIsPreparingExam(true);
+    try {
+      const records = await Promise.all(course.chapters.map(c => (c.lectureId ? getLecture(c.lectureId) : Promise.resolve(undefined))));
+      if (records.some(r => !r)) {
+        showToast({ kind: 'error', title: "Some chapter lectures are missing", message: "Study those chapters again before the final exam." });
+        return;
+      }
+      const { lecture, sectionChapters } = buildExamLecture(course, records.map(r => r!.lecture));
+      const questions = await generateQuiz(
+        lecture,
+        { ...DEFAULT_QUIZ_CONFIG, questionCount: examQuestionCount(course) },
+        { language: course.teachingLanguage, lectureSettings: course.settings }
+      );
+      setExam({ lecture, sectionChapters, questions, startedAt: Date.now() });
+      setAnswers(initialAnswers(questions));
+      setGrades({});
+      setSubmitted(false);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    } catch (e) {
+      console.error(e);
+      showErrorToast(e, "prepare the final exam");
+    } finally {
+      setIsPreparingExam(false);
+    }
+  };
+
+  const submitExam = async () => {
+    if (!exam) return;
+    setIsGrading(true);
+    try {
+      const examGrades = await gradeQuiz(exam.questions, answers, gradeShortAnswer);
+      setGrades(examGrades);
+      setSubmitted(true);
+      const completedAt = Date.now();
+      const score = sumGrades(examGrades);
+      recordQuizResult({
+        id: createId(),
+        lectureId: course.id,
+        lectureTitle: exam.lecture.title,
+        chapter: '',
+        bookId: bookIdFor(course.sourceFiles),
+        startedAt: exam.startedAt,
+        completedAt,
+        score,
+        total: exam.questions.length,
+        practice: false,
+        questions: questionResults(exam.questions, examGrades, exam.lecture.sections.map(s => s.heading)),
+      }).catch(e => console.error("Failed to record exam result", e));
+      const attempt = {
+        completedAt,
+        answers,
+        grades: examGrades,
+        score,
+        total: exam.questions.length,
+        sectionScores: scoreBySection(exam.questions, examGrades),
+      };
+      const updated = await updateCourse(course.id, c => recordExamAttempt(c, attempt));
+      if (updated) onCourseChange(updated);
+    } catch (e) {
+      console.error(e);
+      showErrorToast(e, "grade the exam");
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  // --- Final Exam ---
+
+  if (exam) {
+    // Per-chapter totals, so the student knows what to revisit
+    const byChapter = course.chapters.map(() => ({ score: 0, total: 0 }));
+    if (submitted) {
+      exam.questions.forEach((q, idx) => {
+        const chapter = q.sectionIndex !== undefined ? exam.sectionChapters[q.sectionIndex] : undefined;
+        if (chapter === undefined) return;
+        byChapter[chapter].score += grades[idx]?.score ?? 0;
+        byChapter[chapter].total += 1;
+      });
+    }
+
+    return (
+      <div className="max-w-2xl mx-auto space-y-8 animate-fade-in" dir={isRightToLeft(course.teachingLanguage) ? 'rtl' : undefined}>
+        <button onClick={() => setExam(null)} className="text-sm text-stone-500 hover:text-stone-800 mb-4 flex items-center gap-1">
+          &larr; Back to Course
+        </button>
+
+        <div className="bg-white rounded-3xl p-8 shadow-sm border border-stone-100">
+          <h2 className="text-3xl font-serif font-medium mb-2">Final Exam</h2>
+          <p className="text-stone-500 mb-8">{course.title}</p>
+          <div className="space-y-8">
+            {exam.questions.map((q, idx) => (
+              <QuizQuestionCard
+                key={idx}
+                question={q}
+                index={idx}
+                answer={answers[idx]}
+                onAnswer={(answer) => !submitted && setAnswers(prev => ({ ...prev, [idx]: answer }))}
+                submitted={submitted}
+                grade={grades[idx]}
+                sectionHeading={q.sectionIndex !== undefined ? exam.lecture.sections[q.sectionIndex]?.heading : undefined}
+              />
+            ))}
+          </div>
+        </div>
+
+        {!submitted ? (
+          <button
+            onClick={submitExam}
+            disabled={isGrading || !exam.questions.every((_, idx) => isAnswered(answers[idx]))}
+            className="w-full py-4 bg-indigo-600 text-white rounded-xl font-bold shadow-lg hover:bg-indigo-700 disabled:bg-stone-300 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
+          >
+            {isGrading && <Loader2 className="w-5 h-5 animate-spin" />}
+            {isGrading ? "Grading..." : "Submit Exam"}
+          </button>
+        ) : (
+          <div className="bg-stone-900 text-white p-8 rounded-2xl text-center space-y-4">
+            <p className="text-stone-400 uppercase tracking-wider text-sm font-bold">Final Exam Score</p>
+            <p className="text-6xl font-serif">{formatScore(sumGrades(grades))} / {exam.questions.length}</p>
+            <div className="space-y-2 pt-4 text-left">
+              <p className="text-stone-400 uppercase tracking-wider text-xs font-bold">By Chapter</p>
+              {course.chapters.map((chapter, idx) => byChapter[idx].total > 0 && (
+                <div key={idx} className="flex items-center justify-between gap-3 text-sm">
+                  <button onClick={() => onStudyChapter(idx)} className="truncate text-stone-200 hover:text-white text-left" title="Review this chapter">
+                    {chapter.title}
+                  </button>
+                  <span className="shrink-0 text-stone-400">{formatScore(byChapter[idx].score)} / {byChapter[idx].total}</span>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => setExam(null)}
+              className="inline-block px-6 py-2 bg-white/20 hover:bg-white/30 rounded-full mt-4 transition-colors"
+            >
+              Back to Course
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // --- Syllabus ---
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8 animate-fade-in" dir={isRightToLeft(course.teachingLanguage) ? 'rtl' : undefined}>
+      <div className="space-y-3">
+        <div className="flex items-center gap-3">
+          <Route className="w-8 h-8 text-indigo-600" />
+          <h2 className="text-3xl font-serif font-medium">{course.title}</h2>
+        </div>
+        {course.description && <MarkdownText text={course.description} className="text-lg text-stone-600" />}
+        <p className="text-sm text-stone-400">
+          {passedChapterCount(course)} of {course.chapters.length} chapters passed &middot; {describeLectureSettings(course.settings)} &middot; pass mark {percent(COURSE_PASS_MARK)}
+        </p>
+      </div>
+
+      <ol className="space-y-4">
+        {course.chapters.map((chapter, idx) => {
+          const unlocked = isChapterUnlocked(course, idx);
+          return (
+            <li key={idx} className={`bg-white rounded-2xl p-6 shadow-sm border ${unlocked ? 'border-stone-100' : 'border-stone-100 opacity-60'}`}>
+              <div className="flex items-start gap-4">
+                {chapter.passed
+                  ? <CheckCircle className="w-6 h-6 mt-1 shrink-0 text-green-500" />
+                  : unlocked
+                    ? <Circle className="w-6 h-6 mt-1 shrink-0 text-indigo-400" />
+                    : <Lock className="w-6 h-6 mt-1 shrink-0 text-stone-400" />}
+                <div className="flex-1 min-w-0 space-y-2">
+                  <h3 className="text-xl font-serif font-medium text-stone-800">{chapter.title}</h3>
+                  {chapter.summary && <MarkdownText text={chapter.summary} className="text-stone-600" />}
+                  {chapter.objectives.length > 0 && (
+                    <ul className="list-disc pl-5 space-y-1 text-sm text-stone-600">
+                      {chapter.objectives.map((objective, i) => (
+                        <li key={i}><MarkdownText text={objective} inline /></li>
+                      ))}
+                    </ul>
+                  )}
+                  <p className="text-xs text-stone-400">
+                    {chapter.prerequisites.length > 0
+                      ? <>Builds on: {chapter.prerequisites.map(p => course.chapters[p]?.title).filter(Boolean).join(', ')}</>
+                      : "No prerequisites"}
+                    {chapter.bestScore !== undefined && <> &middot; Best quiz score {percent(chapter.bestScore)}</>}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onStudyChapter(idx)}
+                  disabled={!unlocked}
+                  title={unlocked ? undefined : "Pass the chapters it builds on first"}
+                  className="shrink-0 flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-full text-sm font-medium hover:bg-indigo-700 disabled:bg-stone-300 disabled:cursor-not-allowed transition-colors"
+                >
+                  {chapter.lectureId ? <BookOpen className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  {chapter.lectureId ? "Open" : "Start"}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {/* Final Exam */}
+      <div className={`rounded-2xl p-6 border flex items-center gap-4 ${examUnlocked ? 'bg-stone-900 text-white border-stone-900' : 'bg-white border-stone-100 opacity-60'}`}>
+        {examUnlocked ? <Award className="w-8 h-8 shrink-0 text-amber-400" /> : <Lock className="w-8 h-8 shrink-0 text-stone-400" />}
+        <div className="flex-1 min-w-0">
+          <h3 className="text-xl font-serif font-medium">Final Exam</h3>
+          <p className={`text-sm ${examUnlocked ? 'text-stone-300' : 'text-stone-500'}`}>
+            {examUnlocked
+              ? `${examQuestionCount(course)} questions across every chapter.`
+              : "Pass every chapter quiz to unlock the cumulative exam."}
+            {bestExam !== null && ` Best score ${percent(bestExam)}.`}
+          </p>
+        </div>
+        <button
+          onClick={startExam}
+          disabled={!examUnlocked || isPreparingExam}
+          className="shrink-0 flex items-center gap-2 px-5 py-2 bg-indigo-500 text-white rounded-full text-sm font-semibold hover:bg-indigo-400 disabled:bg-stone-300 disabled:cursor-not-allowed transition-colors"
+        >
+          {isPreparingExam && <Loader2 className="w-4 h-4 animate-spin" />}
+          {isPreparingExam ? "Preparing..." : bestExam !== null ? "Retake Exam" : "Take Exam"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CourseView;
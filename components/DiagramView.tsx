@@ -0,0 +1,62 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LectureSection } from '../types';
+import { renderChartSvg, renderMermaid } from '../services/diagrams';
+import { Loader2, AlertTriangle } from 'lucide-react';
+
+interface DiagramViewProps {
+  section: LectureSection;
+}
+
+// Renders a section's Mermaid diagram or chart as inline SVG, so its text stays selectable and searchable
+const DiagramView: React.FC<DiagramViewProps> = ({ section }) => {
+  const [mermaidSvg, setMermaidSvg] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const chartSvg = useMemo(() => (section.chart ? renderChartSvg(section.chart) : null), [section.chart]);
+
+  useEffect(() => {
+    if (section.visualType !== 'mermaid' || !section.mermaid) return;
+    let cancelled = false;
+    setMermaidSvg(null);
+    setError('');
+    renderMermaid(section.mermaid)
+      .then(svg => { if (!cancelled) setMermaidSvg(svg); })
+      .catch(err => {
+        console.error("Diagram rendering failed", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "The diagram could not be drawn.");
+      });
+    return () => { cancelled = true; };
+  }, [section.visualType, section.mermaid]);
+
+  const svg = section.visualType === 'chart' ? chartSvg : mermaidSvg;
+
+  if (error) {
+    return (
+      <div className="w-full p-6 space-y-3">
+        <p className="flex items-center gap-2 text-sm font-medium text-amber-700">
+          <AlertTriangle className="w-4 h-4" /> This diagram has a syntax error, so its source is shown instead.
+        </p>
+        <pre className="text-xs text-stone-600 bg-white border border-stone-200 rounded-xl p-4 overflow-x-auto">{section.mermaid}</pre>
+      </div>
+    );
+  }
+
+  if (!svg) {
+    return (
+      <div className="flex flex-col items-center text-stone-400 py-16">
+        <Loader2 className="w-8 h-8 mb-2 animate-spin" />
+        <span className="text-sm">Rendering diagram...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="w-full p-4 flex justify-center [&_svg]:max-w-full [&_svg]:h-auto"
+      role="img"
+      aria-label={section.visualPrompt}
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+};
+
+export default DiagramView;
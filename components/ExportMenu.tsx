@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { ExportSource, lectureToMarkdown, lectureToHtml, printLecture, downloadFile, exportFilename, transcriptToMarkdown } from '../services/export';
+import { showToast } from '../services/toasts';
+import { Download, FileText, FileCode, Printer, Loader2, MessageSquare } from 'lucide-react';
+
+interface ExportMenuProps {
+  source: ExportSource;
+}
+
+type ExportFormat = 'markdown' | 'html' | 'pdf' | 'transcripts';
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ source }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeQuiz, setIncludeQuiz] = useState(false);
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+  const hasQuiz = source.quiz.length > 0;
+
+  const runExport = async (format: ExportFormat) => {
+    const options = { includeQuiz: hasQuiz && includeQuiz };
+    setBusyFormat(format);
+    try {
+      if (format === 'markdown') {
+        const md = await lectureToMarkdown(source, options);
+        downloadFile(exportFilename(source.lecture, 'md'), md, 'text/markdown');
+      } else if (format === 'html') {
+        const html = await lectureToHtml(source, options);
+        downloadFile(exportFilename(source.lecture, 'html'), html, 'text/html');
+      } else if (format === 'transcripts') {
+        const md = (source.transcripts ?? []).map(t => transcriptToMarkdown(t, source.lecture.title)).join('\n---\n\n');
+        downloadFile(exportFilename(source.lecture, 'conversations.md'), md, 'text/markdown');
+      } else {
+        await printLecture(source, options);
+      }
+      setIsOpen(false);
+    } catch (e) {
+      console.error("Export failed", e);
+      showToast({ kind: 'error', title: "Export failed", message: e instanceof Error ? e.message : undefined });
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  const items: { format: ExportFormat; label: string; icon: React.ReactNode }[] = [
+    { format: 'markdown', label: "Markdown (.md)", icon: <FileText className="w-4 h-4" /> },
+    { format: 'html', label: "Web page (.html)", icon: <FileCode className="w-4 h-4" /> },
+    { format: 'pdf', label: "Print / Save as PDF", icon: <Printer className="w-4 h-4" /> },
+  ];
+  if (source.transcripts && source.transcripts.length > 0) {
+    items.push({ format: 'transcripts', label: `Professor conversations (${source.transcripts.length})`, icon: <MessageSquare className="w-4 h-4" /> });
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-2 px-6 py-3 rounded-full font-medium bg-stone-100 text-stone-700 hover:bg-stone-200 transition-all border border-stone-200"
+      >
+        <Download className="w-5 h-5" />
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-white rounded-2xl shadow-xl border border-stone-200 p-2 z-40">
+          {items.map(item => (
+            <button
+              key={item.format}
+              onClick={() => runExport(item.format)}
+              disabled={busyFormat !== null}
+              className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-sm text-stone-700 hover:bg-stone-50 disabled:opacity-50 transition-colors"
+            >
+              {busyFormat === item.format ? <Loader2 className="w-4 h-4 animate-spin" /> : item.icon}
+              {item.label}
+            </button>
+          ))}
+          <label className={`flex items-center gap-3 px-3 py-2.5 mt-1 border-t border-stone-100 text-sm ${hasQuiz ? 'text-stone-600 cursor-pointer' : 'text-stone-300'}`}>
+            <input
+              type="checkbox"
+              checked={hasQuiz && includeQuiz}
+              disabled={!hasQuiz}
+              onChange={(e) => setIncludeQuiz(e.target.checked)}
+              className="text-indigo-600 focus:ring-indigo-500 rounded"
+            />
+            {hasQuiz ? "Append quiz with answer key" : "Take the quiz to include it"}
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { Flashcard, ReviewRating, SavedLecture } from '../types';
+import { listDueFlashcards, updateFlashcard, nextDueAt } from '../services/flashcards';
+import { getLecture } from '../services/library';
+import { scheduleReview, describeInterval } from '../services/srs';
+import MarkdownText from './MarkdownText';
+import { showErrorToast } from '../services/toasts';
+import { Layers, Loader2, RotateCcw, PartyPopper } from 'lucide-react';
+
+const RATINGS: { rating: ReviewRating; label: string; className: string }[] = [
+  { rating: 'again', label: "Again", className: "bg-red-50 text-red-700 border-red-200 hover:bg-red-100" },
+  { rating: 'hard', label: "Hard", className: "bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100" },
+  { rating: 'good', label: "Good", className: "bg-green-50 text-green-700 border-green-200 hover:bg-green-100" },
+  { rating: 'easy', label: "Easy", className: "bg-indigo-50 text-indigo-700 border-indigo-200 hover:bg-indigo-100" },
+];
+
+interface FlashcardReviewProps {
+  onSessionChange?: () => void;
+}
+
+const FlashcardReview: React.FC<FlashcardReviewProps> = ({ onSessionChange }) => {
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [lectures, setLectures] = useState<Record<string, SavedLecture | undefined>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [showBack, setShowBack] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [nextDue, setNextDue] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const due = (await listDueFlashcards()).sort((a, b) => a.dueAt - b.dueAt);
+        setQueue(due);
+        // Load each source lecture once, for card images and titles
+        const ids: string[] = Array.from(new Set(due.map(c => c.lectureId)));
+        const records = await Promise.all(ids.map(id => getLecture(id)));
+        setLectures(Object.fromEntries(ids.map((id, i) => [id, records[i]])));
+      } catch (e) {
+        console.error("Failed to load flashcards", e);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!isLoading && queue.length === 0) {
+      nextDueAt().then(setNextDue).catch(() => setNextDue(null));
+    }
+  }, [isLoading, queue.length]);
+
+  const rate = async (rating: ReviewRating) => {
+    const [card, ...rest] = queue;
+    const now = Date.now();
+    const updated: Flashcard = { ...card, ...scheduleReview(card, rating, now), lastReviewedAt: now };
+    setIsSaving(true);
+    try {
+      await updateFlashcard(updated);
+    } catch (e) {
+      // The card stays up so the rating can be given again
+      console.error("Failed to save the review", e);
+      showErrorToast(e, "save your rating");
+      return;
+    } finally {
+      setIsSaving(false);
+    }
+    // Cards marked "again" are relearned before the session ends
+    setQueue(rating === 'again' ? [...rest, updated] : rest);
+    setShowBack(false);
+    setReviewedCount(c => c + 1);
+    onSessionChange?.();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+      </div>
+    );
+  }
+
+  const card = queue[0];
+  const lecture = card ? lectures[card.lectureId] : undefined;
+  const imageUrl = card && card.sectionIndex !== undefined ? lecture?.generatedImages[card.sectionIndex] : undefined;
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-8 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Layers className="w-8 h-8 text-indigo-600" />
+          <h2 className="text-3xl font-serif font-medium">Daily Review</h2>
+        </div>
+        {card && <span className="text-sm text-stone-500">{queue.length} left &middot; {reviewedCount} reviewed</span>}
+      </div>
+
+      {!card ? (
+        <div className="bg-white rounded-3xl p-12 shadow-sm border border-stone-100 text-center space-y-4">
+          <PartyPopper className="w-12 h-12 text-indigo-500 mx-auto" />
+          <h3 className="text-2xl font-serif">All caught up!</h3>
+          <p className="text-stone-500">
+            {reviewedCount > 0 ? `You reviewed ${reviewedCount} cards this session. ` : "No cards are due right now. "}
+            {nextDue ? `Next review: ${new Date(nextDue).toLocaleString()}.` : "Finish a lecture or quiz to add cards to your deck."}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-3xl shadow-sm border border-stone-100 overflow-hidden">
+            {lecture && (
+              <p className="px-8 pt-6 text-xs font-bold uppercase tracking-wide text-stone-400">
+                {lecture.title} {card.source === 'quiz' && <span className="text-red-400">&middot; from a missed quiz question</span>}
+              </p>
+            )}
+            <div className="p-8 space-y-6">
+              <MarkdownText text={card.front} className="text-2xl font-serif text-stone-900" />
+              {showBack && (
+                <div className="pt-6 border-t border-stone-100 space-y-4 animate-fade-in">
+                  <MarkdownText text={card.back} className="text-lg text-stone-700 space-y-3" />
+                  {imageUrl && (
+                    <img src={imageUrl} alt="" className="w-full rounded-2xl border border-stone-200 aspect-video object-cover" />
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {!showBack ? (
+            <button
+              onClick={() => setShowBack(true)}
+              className="w-full py-4 bg-indigo-600 text-white rounded-xl font-bold shadow-lg hover:bg-indigo-700 transition-all flex items-center justify-center gap-2"
+            >
+              <RotateCcw className="w-5 h-5" /> Show Answer
+            </button>
+          ) : (
+            <div className="grid grid-cols-4 gap-3">
+              {RATINGS.map(r => (
+                <button
+                  key={r.rating}
+                  onClick={() => rate(r.rating)}
+                  disabled={isSaving}
+                  className={`py-3 rounded-xl border font-semibold transition-colors flex flex-col items-center disabled:opacity-50 ${r.className}`}
+                >
+                  {r.label}
+                  <span className="text-xs font-normal opacity-70">{describeInterval(scheduleReview(card, r.rating))}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardReview;
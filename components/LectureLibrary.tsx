@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { Course, SavedLecture } from '../types';
+import { listLectures, renameLecture, deleteLecture, matchesLectureQuery } from '../services/library';
+import { DEFAULT_TEACHING_LANGUAGE } from '../services/language';
+import { AUDIENCE_LEVEL_LABELS, LECTURE_STYLE_LABELS, describeLectureSettings } from '../services/lectureSettings';
+import { listCourses, deleteCourse, passedChapterCount } from '../services/courses';
+import { Library, Search, Pencil, Trash2, Check, X, BookOpen, Loader2, Route } from 'lucide-react';
+
+interface LectureLibraryProps {
+  onOpen: (record: SavedLecture) => void;
+  onOpenCourse: (course: Course) => void;
+}
+
+const matchesCourseQuery = (course: Course, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [course.title, course.description, ...course.chapters.map(c => c.title)].some(text => text.toLowerCase().includes(q));
+};
+
+const LectureLibrary: React.FC<LectureLibraryProps> = ({ onOpen, onOpenCourse }) => {
+  const [lectures, setLectures] = useState<SavedLecture[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const refresh = async () => {
+    try {
+      const [savedLectures, savedCourses] = await Promise.all([listLectures(), listCourses()]);
+      setLectures(savedLectures);
+      setCourses(savedCourses);
+    } catch (e) {
+      console.error("Failed to load library", e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const commitRename = async (id: string) => {
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+    await renameLecture(id, title);
+    refresh();
+  };
+
+  const handleDelete = async (record: SavedLecture) => {
+    if (!confirm(`Delete "${record.title}" from your library?`)) return;
+    await deleteLecture(record.id);
+    refresh();
+  };
+
+  const handleDeleteCourse = async (course: Course) => {
+    if (!confirm(`Delete the course "${course.title}"? Its chapter lectures stay in your library.`)) return;
+    await deleteCourse(course.id);
+    refresh();
+  };
+
+  const visible = lectures.filter(l => matchesLectureQuery(l, query));
+  const visibleCourses = courses.filter(c => matchesCourseQuery(c, query));
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8 animate-fade-in">
+      <div className="flex items-center gap-3">
+        <Library className="w-8 h-8 text-indigo-600" />
+        <h2 className="text-3xl font-serif font-medium">Your Library</h2>
+      </div>
+
+      <div className="relative">
+        <Search className="w-4 h-4 text-stone-400 absolute left-4 top-1/2 -translate-y-1/2" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search lectures, chapters, topics..."
+          className="w-full pl-10 pr-4 py-3 rounded-xl border border-stone-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        />
+      </div>
+
+      {!isLoading && visibleCourses.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-xs font-bold uppercase tracking-wide text-stone-400">Courses</h3>
+          {visibleCourses.map(course => (
+            <div key={course.id} className="bg-white rounded-2xl p-6 shadow-sm border border-indigo-100 flex items-start gap-4">
+              <Route className="w-6 h-6 mt-1 shrink-0 text-indigo-500" />
+              <div className="flex-1 min-w-0">
+                <h3 className="text-xl font-serif font-medium text-stone-800 truncate">{course.title}</h3>
+                <p className="text-sm text-stone-500 mt-1">
+                  {passedChapterCount(course)} of {course.chapters.length} chapters passed &middot; {course.teachingLanguage} &middot; {describeLectureSettings(course.settings)}
+                </p>
+                <p className="text-xs text-stone-400 mt-1">Updated {new Date(course.updatedAt).toLocaleString()}</p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  onClick={() => handleDeleteCourse(course)}
+                  className="p-2 rounded-full hover:bg-red-50 text-stone-500 hover:text-red-600"
+                  title="Delete course"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onOpenCourse(course)}
+                  className="ml-2 flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-full text-sm font-medium hover:bg-indigo-700 transition-colors"
+                >
+                  <BookOpen className="w-4 h-4" /> Open
+                </button>
+              </div>
+            </div>
+          ))}
+          <h3 className="text-xs font-bold uppercase tracking-wide text-stone-400 pt-4">Lectures</h3>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="w-8 h-8 animate-spin text-indigo-600" />
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="text-center text-stone-500 py-16">
+          {lectures.length === 0 ? "No saved classes yet. Lectures are saved here automatically." : "No lectures match your search."}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {visible.map((record: SavedLecture) => {
+            const bestAttempt: number | null = record.quizAttempts.length > 0
+              ? Math.max(...record.quizAttempts.map(a => a.score / Math.max(a.total, 1)))
+              : null;
+            return (
+              <div key={record.id} className="bg-white rounded-2xl p-6 shadow-sm border border-stone-100 flex items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  {editingId === record.id ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        autoFocus
+                        value={draftTitle}
+                        onChange={(e) => setDraftTitle(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename(record.id);
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="flex-1 px-3 py-1.5 rounded-lg border border-stone-300 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                      />
+                      <button onClick={() => commitRename(record.id)} className="p-2 rounded-full hover:bg-stone-100 text-green-600">
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setEditingId(null)} className="p-2 rounded-full hover:bg-stone-100 text-stone-500">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <h3 className="text-xl font-serif font-medium text-stone-800 truncate">{record.title}</h3>
+                  )}
+                  <p className="text-sm text-stone-500 mt-1">
+                    {record.chapter || "Full book"} &middot; {record.lecture.sections.length} sections &middot; {record.teachingLanguage ?? DEFAULT_TEACHING_LANGUAGE}
+                    {record.settings && <> &middot; {AUDIENCE_LEVEL_LABELS[record.settings.audience]} &middot; {LECTURE_STYLE_LABELS[record.settings.style]}</>}
+                  </p>
+                  <p className="text-xs text-stone-400 mt-1">
+                    Updated {new Date(record.updatedAt).toLocaleString()}
+                    {bestAttempt !== null && <> &middot; Best quiz score {Math.round(bestAttempt * 100)}%</>}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => { setEditingId(record.id); setDraftTitle(record.title); }}
+                    className="p-2 rounded-full hover:bg-stone-100 text-stone-500"
+                    title="Rename"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(record)}
+                    className="p-2 rounded-full hover:bg-red-50 text-stone-500 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onOpen(record)}
+                    className="ml-2 flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-full text-sm font-medium hover:bg-indigo-700 transition-colors"
+                  >
+                    <BookOpen className="w-4 h-4" /> Open
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LectureLibrary;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { LectureSettings } from '../types';
+import {
+  ALL_AUDIENCE_LEVELS, ALL_LECTURE_STYLES, AUDIENCE_LEVEL_LABELS, LECTURE_STYLE_LABELS, MIN_SECTION_COUNT, MAX_SECTION_COUNT
+} from '../services/lectureSettings';
+
+interface LectureSettingsPanelProps {
+  settings: LectureSettings;
+  onChange: (settings: LectureSettings) => void;
+}
+
+const chipClass = (selected: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+    selected ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-stone-200 text-stone-400 hover:text-stone-600'
+  }`;
+
+const LectureSettingsPanel: React.FC<LectureSettingsPanelProps> = ({ settings, onChange }) => (
+  <div className="space-y-3">
+    <div>
+      <span className="block text-sm font-medium text-stone-700 mb-2">Audience</span>
+      <div className="flex flex-wrap gap-2">
+        {ALL_AUDIENCE_LEVELS.map(audience => (
+          <button key={audience} onClick={() => onChange({ ...settings, audience })} className={chipClass(settings.audience === audience)}>
+            {AUDIENCE_LEVEL_LABELS[audience]}
+          </button>
+        ))}
+      </div>
+    </div>
+    <div>
+      <span className="block text-sm font-medium text-stone-700 mb-2">Style</span>
+      <div className="flex flex-wrap gap-2">
+        {ALL_LECTURE_STYLES.map(style => (
+          <button key={style} onClick={() => onChange({ ...settings, style })} className={chipClass(settings.style === style)}>
+            {LECTURE_STYLE_LABELS[style]}
+          </button>
+        ))}
+      </div>
+    </div>
+    <label className="flex items-center gap-3 text-sm text-stone-600">
+      <span className="font-medium text-stone-700">Sections</span>
+      <input
+        type="range"
+        min={MIN_SECTION_COUNT}
+        max={MAX_SECTION_COUNT}
+        value={settings.sectionCount}
+        onChange={(e) => onChange({ ...settings, sectionCount: Number(e.target.value) })}
+        className="flex-1 accent-indigo-600"
+      />
+      <span className="w-6 text-right font-semibold text-stone-800">{settings.sectionCount}</span>
+    </label>
+  </div>
+);
+
+export default LectureSettingsPanel;
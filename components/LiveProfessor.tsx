@@ -1,20 +1,49 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Blob } from '@google/genai';
-import { UploadedFile } from '../types';
-import { Mic, MicOff, X, Volume2, Loader2 } from 'lucide-react';
+import { GoogleGenAI, LiveServerMessage, Modality, Blob, FunctionCall, FunctionResponse } from '@google/genai';
+import { UploadedFile, LiveTranscript, TranscriptTurn, LectureSettings } from '../types';
+import { createId } from '../services/db';
+import { transcriptToMarkdown, downloadFile } from '../services/export';
+import { chatWithProfessor, playTTS, supportsLiveVoice } from '../services/gemini';
+import { adviceFor } from '../services/errors';
+import { professorInstruction, conversationRecap } from '../services/professor';
+import { LECTURE_TOOL_DECLARATIONS, LectureToolHandler, lectureToolInstruction, parseLectureToolCall } from '../services/liveTools';
+import { Mic, MicOff, X, Volume2, Loader2, Download, MessageSquare, Send } from 'lucide-react';
 
 interface LiveProfessorProps {
   files: UploadedFile[];
   onClose: () => void;
   contextSummary: string;
+  language: string; // The lecture's teaching language, used for both voice and text
+  settings: LectureSettings; // Pitches the professor's answers to the lecture's audience
+  onSessionEnd?: (transcript: LiveTranscript) => void;
+  /** Headings of the lecture on screen; with `onToolCall`, lets the professor drive the UI. */
+  sectionHeadings?: string[];
+  onToolCall?: LectureToolHandler;
 }
 
-const LiveProfessor: React.FC<LiveProfessorProps> = ({ files, onClose, contextSummary }) => {
+type ConversationMode = 'voice' | 'text';
+
+// Browsers without a microphone API (or insecure origins) can only type
+const canUseMicrophone = () => typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+const LiveProfessor: React.FC<LiveProfessorProps> = ({ files, onClose, contextSummary, language, settings, onSessionEnd, sectionHeadings = [], onToolCall }) => {
   const [isActive, setIsActive] = useState(false);
   const [status, setStatus] = useState<'connecting' | 'listening' | 'speaking' | 'error'>('connecting');
   const [errorMessage, setErrorMessage] = useState('');
+  const [turns, setTurns] = useState<TranscriptTurn[]>([]);
+  const [mode, setMode] = useState<ConversationMode>(() => (canUseMicrophone() && supportsLiveVoice() ? 'voice' : 'text'));
+
+  // Typed chat state
+  const [draft, setDraft] = useState('');
+  const [isReplying, setIsReplying] = useState(false);
+  const [speakReplies, setSpeakReplies] = useState(false);
+  const [chatError, setChatError] = useState('');
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const stopSpeechRef = useRef<(() => void) | null>(null);
   
   // Refs for cleanup
+  // Marks the connection being set up or running; cleanup cancels it so its late callbacks do nothing
+  const connectionRef = useRef<{ cancelled: boolean } | null>(null);
   const sessionPromiseRef = useRef<Promise<any> | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const inputContextRef = useRef<AudioContext | null>(null);
@@ -23,6 +52,59 @@ const LiveProfessor: React.FC<LiveProfessorProps> = ({ files, onClose, contextSu
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
 
+  // Transcript of the whole modal lifetime, kept across reconnects
+  const turnsRef = useRef<TranscriptTurn[]>([]);
+  const startedAtRef = useRef(Date.now());
+  const onSessionEndRef = useRef(onSessionEnd);
+  onSessionEndRef.current = onSessionEnd;
+  // Read at connect time so a re-render of the lecture doesn't restart the session
+  const onToolCallRef = useRef(onToolCall);
+  onToolCallRef.current = onToolCall;
+  const sectionHeadingsRef = useRef(sectionHeadings);
+  sectionHeadingsRef.current = sectionHeadings;
+  const logEndRef = useRef<HTMLDivElement | null>(null);
+
+  // Transcription arrives in fragments; consecutive fragments from one speaker form a turn
+  const appendTranscript = (role: TranscriptTurn['role'], text: string) => {
+    const prev = turnsRef.current;
+    const last = prev[prev.length - 1];
+    const next = last && last.role === role
+      ? [...prev.slice(0, -1), { ...last, text: last.text + text }]
+      : [...prev, { role, text, timestamp: Date.now() }];
+    turnsRef.current = next;
+    setTurns(next);
+  };
+
+  const buildTranscript = (): LiveTranscript => ({
+    id: createId(),
+    startedAt: startedAtRef.current,
+    endedAt: Date.now(),
+    turns: turnsRef.current.filter(t => t.text.trim()),
+  });
+
+  const exportTranscript = () => {
+    const md = transcriptToMarkdown(buildTranscript(), contextSummary);
+    downloadFile(`professor-conversation-${new Date(startedAtRef.current).toISOString().slice(0, 10)}.md`, md, 'text/markdown');
+  };
+
+  // Runs the model's tool calls against the app and reports each outcome back to it
+  const runToolCalls = async (calls: FunctionCall[]): Promise<FunctionResponse[]> =>
+    Promise.all(calls.map(async fc => {
+      const call = parseLectureToolCall(fc.name, fc.args, sectionHeadingsRef.current.length);
+      let result: string;
+      if (!call || !onToolCallRef.current) {
+        result = `Could not run ${fc.name}: unknown tool or invalid arguments.`;
+      } else {
+        try {
+          result = await onToolCallRef.current(call);
+        } catch (err) {
+          console.error("Tool call failed", fc.name, err);
+          result = `${fc.name} failed.`;
+        }
+      }
+      return { id: fc.id, name: fc.name, response: { result } };
+    }));
+
   // Helper functions for Audio
   const createBlob = (data: Float32Array): Blob => {
     const l = data.length;
@@ -69,8 +151,15 @@ const LiveProfessor: React.FC<LiveProfessorProps> = ({ files, onClose, contextSu
   };
 
   const startSession = useCallback(async () => {
+    const connection = { cancelled: false };
+    connectionRef.current = connection;
     try {
       setErrorMessage('');
+      if (!supportsLiveVoice()) {
+        setErrorMessage("Voice needs the Gemini API (AI_PROVIDER=gemini). Type your questions instead.");
+        setStatus('error');
+        return;
+      }
       setStatus('connecting');
       const apiKey = process.env.API_KEY || '';
       const ai = new GoogleGenAI({ apiKey });
@@ -84,23 +173,32 @@ const LiveProfessor: React.FC<LiveProfessorProps> = ({ files, onClose, contextSu
 
       // Get Mic Stream
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (connection.cancelled) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       streamRef.current = stream;
 
+      const toolsEnabled = !!onToolCallRef.current && sectionHeadingsRef.current.length > 0;
+
       const sessionPromise = ai.live.connect({
         model: 'gemini-2.5-flash-native-audio-preview-09-2025',
         config: {
           responseModalities: [Modality.AUDIO],
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
           speechConfig: {
             voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
           },
-          systemInstruction: `You are a helpful and knowledgeable professor teaching a class. 
-          The user has uploaded book pages on the topic: "${contextSummary}".
-          Answer questions specifically based on the context of the book pages provided. 
-          Be encouraging, academic but accessible. 
-          If the user asks something unrelated, gently steer them back to the lecture topic.`,
+          systemInstruction: toolsEnabled
+            ? `${professorInstruction(contextSummary, language, settings)}
+${lectureToolInstruction(sectionHeadingsRef.current)}`
+            : professorInstruction(contextSummary, language, settings),
+          tools: toolsEnabled ? [{ functionDeclarations: LECTURE_TOOL_DECLARATIONS }] : undefined,
         },
         callbacks: {
           onopen: () => {
+            if (connection.cancelled) return;
             console.log('Live Session Opened');
             setStatus('listening');
             setIsActive(true);
@@ -125,6 +223,13 @@ const LiveProfessor: React.FC<LiveProfessorProps> = ({ files, onClose, contextSu
                   data: btoa("I have uploaded the book pages. I am ready to ask questions.")
                 }
               });
+              // Picking up a conversation that started in text mode (or an earlier connection)
+              if (turnsRef.current.some(t => t.text.trim())) {
+                session.sendClientContent({
+                  turns: [{ role: 'user', parts: [{ text: conversationRecap(turnsRef.current) }] }],
+                  turnComplete: false
+                });
+              }
             });
 
             // Setup Mic Stream Processing
@@ -144,6 +249,21 @@ const LiveProfessor: React.FC<LiveProfessorProps> = ({ files, onClose, contextSu
             processor.connect(inputCtx.destination);
           },
           onmessage: async (msg: LiveServerMessage) => {
+            if (connection.cancelled) return;
+            // Handle Transcription
+            const heard = msg.serverContent?.inputTranscription?.text;
+            if (heard) appendTranscript('student', heard);
+            const spoken = msg.serverContent?.outputTranscription?.text;
+            if (spoken) appendTranscript('professor', spoken);
+
+            // Handle Tool Calls
+            const functionCalls = msg.toolCall?.functionCalls;
+            if (functionCalls?.length) {
+              const functionResponses = await runToolCalls(functionCalls);
+              if (connection.cancelled) return;
+              sessionPromiseRef.current?.then(session => session.sendToolResponse({ functionResponses }));
+            }
+
             // Handle Audio Output
             const base64Audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
             if (base64Audio && audioContextRef.current) {
@@ -152,6 +272,7 @@ const LiveProfessor: React.FC<LiveProfessorProps> = ({ files, onClose, contextSu
                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
                
                const buffer = await decodeAudioData(base64Audio, ctx);
+               if (connection.cancelled) return;
                const source = ctx.createBufferSource();
                source.buffer = buffer;
                source.connect(ctx.destination);
@@ -176,12 +297,14 @@ const LiveProfessor: React.FC<LiveProfessorProps> = ({ files, onClose, contextSu
               setStatus('listening');
             }
           },
+          // A session closed by cleanup reports here too; by then a newer one may be running
           onclose: () => {
             console.log('Live Session Closed');
-            cleanup();
+            if (!connection.cancelled) cleanup();
           },
           onerror: (e) => {
             console.error('Live Session Error', e);
+            if (connection.cancelled) return;
             setErrorMessage("Connection error. Please try again.");
             setStatus('error');
             cleanup();
@@ -190,15 +313,22 @@ const LiveProfessor: React.FC<LiveProfessorProps> = ({ files, onClose, contextSu
       });
       
       sessionPromiseRef.current = sessionPromise;
+      await sessionPromise;
 
     } catch (err) {
       console.error("Failed to start session", err);
-      setErrorMessage("Could not access microphone or connect.");
+      if (connection.cancelled) return;
+      setErrorMessage(err instanceof DOMException && err.name === 'NotAllowedError'
+        ? "Microphone access was denied."
+        : "Could not access microphone or connect.");
       setStatus('error');
+      cleanup();
     }
-  }, [files, contextSummary]);
+  }, [files, contextSummary, language, settings]);
 
   const cleanup = () => {
+    if (connectionRef.current) connectionRef.current.cancelled = true;
+    connectionRef.current = null;
     setIsActive(false);
     
     // Stop mic processing
@@ -223,17 +353,92 @@ const LiveProfessor: React.FC<LiveProfessorProps> = ({ files, onClose, contextSu
       audioContextRef.current = null;
     }
 
+    // Closing the socket ends its transcription and tool calls; a session still connecting is closed once it opens
+    sessionPromiseRef.current?.then(session => session.close(), () => {});
     sessionPromiseRef.current = null;
   };
 
+  // The voice session only runs while voice mode is selected
   useEffect(() => {
+    if (mode !== 'voice') return;
     startSession();
     return cleanup;
-  }, [startSession]);
+  }, [startSession, mode]);
+
+  const stopChat = () => {
+    chatAbortRef.current?.abort();
+    chatAbortRef.current = null;
+    stopSpeechRef.current?.();
+    stopSpeechRef.current = null;
+    setIsReplying(false);
+  };
+
+  const switchMode = (next: ConversationMode) => {
+    if (next === mode) return;
+    stopChat();
+    setMode(next);
+  };
+
+  const sendMessage = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const text = draft.trim();
+    if (!text || isReplying) return;
+
+    stopSpeechRef.current?.();
+    stopSpeechRef.current = null;
+    setDraft('');
+    setChatError('');
+    appendTranscript('student', text);
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    setIsReplying(true);
+    try {
+      const reply = await chatWithProfessor(files, professorInstruction(contextSummary, language, settings), turnsRef.current, {
+        signal: controller.signal,
+        onChunk: chunk => appendTranscript('professor', chunk),
+      });
+      if (speakReplies && !controller.signal.aborted) {
+        try {
+          const stop = await playTTS(reply, () => { stopSpeechRef.current = null; }, language, controller.signal);
+          // The modal may have closed or switched modes while speech was synthesizing
+          if (controller.signal.aborted) stop();
+          else stopSpeechRef.current = stop;
+        } catch (err) {
+          // The written reply is already on screen; only the voice is missing
+          if (controller.signal.aborted) return;
+          console.error("Speaking the reply failed", err);
+          setChatError(`The reply couldn't be read aloud. ${adviceFor(err).message}`);
+        }
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Chat reply failed", err);
+      setChatError(`The professor couldn't answer that. ${adviceFor(err).message}`);
+    } finally {
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
+        setIsReplying(false);
+      }
+    }
+  };
+
+  // Hand the transcript to the lecture when the modal goes away
+  useEffect(() => () => {
+    chatAbortRef.current?.abort();
+    stopSpeechRef.current?.();
+    const transcript = buildTranscript();
+    if (transcript.turns.length > 0) onSessionEndRef.current?.(transcript);
+  }, []);
+
+  useEffect(() => {
+    logEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [turns]);
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
-      <div className="bg-stone-900 text-stone-100 p-8 rounded-3xl max-w-lg w-full flex flex-col items-center relative shadow-2xl border border-stone-700">
+    // Docked rather than modal, so the student can watch the lecture while the professor points things out
+    <div className="fixed bottom-6 right-6 z-50 w-[min(28rem,calc(100%-3rem))] max-h-[calc(100vh-3rem)] overflow-y-auto rounded-3xl">
+      <div className="bg-stone-900 text-stone-100 p-8 rounded-3xl w-full flex flex-col items-center relative shadow-2xl border border-stone-700">
         <button 
           onClick={onClose}
           className="absolute top-4 right-4 p-2 hover:bg-stone-800 rounded-full transition-colors"
@@ -241,30 +446,123 @@ const LiveProfessor: React.FC<LiveProfessorProps> = ({ files, onClose, contextSu
           <X className="w-6 h-6" />
         </button>
 
+        <div className="flex bg-stone-800 rounded-full p-1 mb-6 text-sm">
+          {([['voice', "Voice", Mic], ['text', "Text", MessageSquare]] as const).map(([value, label, Icon]) => (
+            <button
+              key={value}
+              onClick={() => switchMode(value)}
+              className={`flex items-center gap-2 px-4 py-1.5 rounded-full font-medium transition-colors ${mode === value ? 'bg-indigo-600 text-white' : 'text-stone-400 hover:text-stone-200'}`}
+            >
+              <Icon className="w-4 h-4" /> {label}
+            </button>
+          ))}
+        </div>
+
         <div className="w-24 h-24 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-600 flex items-center justify-center mb-6 shadow-lg shadow-purple-500/20">
-            {status === 'connecting' && <Loader2 className="w-10 h-10 animate-spin text-white" />}
-            {status === 'listening' && <Mic className="w-10 h-10 text-white animate-pulse" />}
-            {status === 'speaking' && <Volume2 className="w-10 h-10 text-white animate-bounce" />}
-            {status === 'error' && <MicOff className="w-10 h-10 text-red-300" />}
+            {mode === 'text' ? (
+              isReplying ? <Loader2 className="w-10 h-10 animate-spin text-white" /> : <MessageSquare className="w-10 h-10 text-white" />
+            ) : (
+              <>
+                {status === 'connecting' && <Loader2 className="w-10 h-10 animate-spin text-white" />}
+                {status === 'listening' && <Mic className="w-10 h-10 text-white animate-pulse" />}
+                {status === 'speaking' && <Volume2 className="w-10 h-10 text-white animate-bounce" />}
+                {status === 'error' && <MicOff className="w-10 h-10 text-red-300" />}
+              </>
+            )}
         </div>
 
         <h2 className="text-2xl font-serif font-semibold mb-2">Professor AI</h2>
         
         <p className="text-stone-400 text-center mb-8 h-6">
-          {status === 'connecting' && "Connecting to class..."}
-          {status === 'listening' && "Listening... Ask your question."}
-          {status === 'speaking' && "Professor is explaining..."}
-          {status === 'error' && errorMessage}
+          {mode === 'text' ? (
+            chatError || (isReplying ? "Professor is writing..." : "Type your question below.")
+          ) : (
+            <>
+              {status === 'connecting' && "Connecting to class..."}
+              {status === 'listening' && "Listening... Ask your question."}
+              {status === 'speaking' && "Professor is explaining..."}
+              {status === 'error' && errorMessage}
+            </>
+          )}
         </p>
 
+        {turns.length > 0 && (
+          <div className="w-full max-h-64 overflow-y-auto mb-6 space-y-3 pr-1">
+            {turns.map((turn, idx) => (
+              <div key={idx} className={`flex ${turn.role === 'student' ? 'justify-end' : 'justify-start'}`}>
+                <p className={`max-w-[85%] px-4 py-2 rounded-2xl text-sm leading-relaxed whitespace-pre-line ${
+                  turn.role === 'student' ? 'bg-indigo-600 text-white rounded-br-sm' : 'bg-stone-800 text-stone-200 rounded-bl-sm'
+                }`}>
+                  {turn.text}
+                </p>
+              </div>
+            ))}
+            <div ref={logEndRef} />
+          </div>
+        )}
+
+        {mode === 'text' && (
+          <form onSubmit={sendMessage} className="w-full mb-6 space-y-3">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder="Ask the professor..."
+                autoFocus
+                className="flex-1 bg-stone-800 border border-stone-700 rounded-full px-5 py-3 text-sm placeholder-stone-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="submit"
+                disabled={!draft.trim() || isReplying}
+                className="w-12 h-12 rounded-full bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 flex items-center justify-center transition-colors"
+                title="Send"
+              >
+                <Send className="w-5 h-5" />
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-stone-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={speakReplies}
+                onChange={(e) => {
+                  setSpeakReplies(e.target.checked);
+                  if (!e.target.checked) stopSpeechRef.current?.();
+                }}
+                className="text-indigo-600 focus:ring-indigo-500 rounded"
+              />
+              Read replies aloud
+            </label>
+          </form>
+        )}
+
         <div className="flex gap-4">
-             {status === 'error' ? (
-                <button 
-                onClick={() => { cleanup(); startSession(); }}
-                className="px-6 py-3 bg-stone-700 hover:bg-stone-600 rounded-full font-medium transition-colors"
+             {turns.length > 0 && (
+                <button
+                onClick={exportTranscript}
+                className="px-4 py-3 bg-stone-800 hover:bg-stone-700 rounded-full font-medium transition-colors flex items-center gap-2"
+                title="Download transcript"
               >
-                Retry Connection
+                <Download className="w-4 h-4" />
               </button>
+             )}
+             {mode === 'voice' && status === 'error' ? (
+                <>
+                  {supportsLiveVoice() && (
+                    <button
+                      onClick={() => { cleanup(); startSession(); }}
+                      className="px-6 py-3 bg-stone-700 hover:bg-stone-600 rounded-full font-medium transition-colors"
+                    >
+                      Retry Connection
+                    </button>
+                  )}
+                  <button
+                    onClick={() => switchMode('text')}
+                    className="px-6 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-full font-medium transition-colors flex items-center gap-2"
+                  >
+                    <MessageSquare className="w-4 h-4" /> Type Instead
+                  </button>
+                </>
              ) : (
                 <button 
                 onClick={onClose}
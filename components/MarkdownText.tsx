@@ -0,0 +1,57 @@
+import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import type { PluggableList } from 'unified';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+
+interface MarkdownTextProps {
+  text: string;
+  inline?: boolean; // Renders without paragraph wrappers, for options and one-line answers
+  className?: string;
+}
+
+const REMARK_PLUGINS: PluggableList = [remarkGfm, remarkMath];
+// KaTeX errors show the offending source in red instead of breaking the page
+const REHYPE_PLUGINS: PluggableList = [[rehypeKatex, { throwOnError: false, strict: 'ignore' }], [rehypeHighlight, { detect: true, ignoreMissing: true }]];
+
+// Model output is untrusted: raw HTML is dropped, images are not loaded, and headings
+// are kept below the section heading so they don't compete with the lecture layout
+const DISALLOWED_ELEMENTS = ['img', 'h1', 'h2'];
+
+const COMPONENTS: Components = {
+  a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" className="text-indigo-600 underline" />,
+};
+
+const INLINE_COMPONENTS: Components = {
+  ...COMPONENTS,
+  p: ({ children }) => <>{children}</>,
+};
+
+// remark-math only treats $$ as display math when the delimiters sit on their own lines,
+// but models usually write a displayed equation as "$$E = mc^2$$" on one line
+const splitDisplayMath = (text: string) => text.replace(/^[ \t]*\$\$([^\n]+?)\$\$[ \t]*$/gm, '$$$$\n$1\n$$$$');
+
+// An inline answer such as "1. Light → 2. Dark" is a sequence, not a list
+const escapeListMarker = (text: string) => text.replace(/^(\s*\d+)([.)])(\s)/, '$1\\$2$3');
+
+/** Renders model-written text as a safe Markdown subset with LaTeX math and highlighted code. */
+const MarkdownText: React.FC<MarkdownTextProps> = ({ text, inline = false, className }) => {
+  const markdown = (
+    <ReactMarkdown
+      remarkPlugins={REMARK_PLUGINS}
+      rehypePlugins={REHYPE_PLUGINS}
+      components={inline ? INLINE_COMPONENTS : COMPONENTS}
+      disallowedElements={DISALLOWED_ELEMENTS}
+      unwrapDisallowed
+      skipHtml
+    >
+      {inline ? escapeListMarker(text) : splitDisplayMath(text)}
+    </ReactMarkdown>
+  );
+  if (inline) return <span className={className}>{markdown}</span>;
+  return <div className={className}>{markdown}</div>;
+};
+
+export default MarkdownText;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { LectureSection } from '../types';
+import { ConceptMastery, MASTERY_THRESHOLD } from '../services/mastery';
+import { CheckCircle, Target } from 'lucide-react';
+
+interface MasteryReportProps {
+  mastery: ConceptMastery[];
+  sections: LectureSection[];
+  onReviewSection?: (sectionIndex: number) => void;
+}
+
+// Per-concept mastery bars with the threshold marked, shown under the quiz score
+const MasteryReport: React.FC<MasteryReportProps> = ({ mastery, sections, onReviewSection }) => (
+  <div className="space-y-3 text-left">
+    <p className="text-stone-400 uppercase tracking-wider text-xs font-bold">Mastery by Concept</p>
+    {mastery.map(m => {
+      const mastered = m.mastery >= MASTERY_THRESHOLD;
+      const percent = Math.round(m.mastery * 100);
+      return (
+        <div key={m.sectionIndex} className="space-y-1">
+          <div className="flex items-center justify-between gap-3 text-sm">
+            <button
+              onClick={() => onReviewSection?.(m.sectionIndex)}
+              className="flex items-center gap-2 truncate text-stone-200 hover:text-white"
+              title="Review this section"
+            >
+              {mastered ? <CheckCircle className="w-4 h-4 shrink-0 text-green-400" /> : <Target className="w-4 h-4 shrink-0 text-amber-400" />}
+              <span className="truncate">{sections[m.sectionIndex]?.heading ?? `Section ${m.sectionIndex + 1}`}</span>
+            </button>
+            <span className="shrink-0 text-stone-400">{percent}% &middot; {m.questionCount} {m.questionCount === 1 ? "question" : "questions"}</span>
+          </div>
+          <div className="relative h-2 rounded-full bg-white/10">
+            <div className={`h-full rounded-full ${mastered ? 'bg-green-400' : 'bg-amber-400'}`} style={{ width: `${percent}%` }} />
+            <div className="absolute top-[-3px] bottom-[-3px] w-0.5 bg-white/60" style={{ left: `${MASTERY_THRESHOLD * 100}%` }} title="Mastery threshold" />
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default MasteryReport;
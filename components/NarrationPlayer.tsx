@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LectureContent } from '../types';
+import { synthesizeSpeech } from '../services/gemini';
+import { speechToObjectUrl } from '../services/audio';
+import { buildNarrationChunks } from '../services/narration';
+import { adviceFor, isAbortError, toServiceError } from '../services/errors';
+import { Play, Pause, SkipBack, SkipForward, X, Loader2, RotateCcw } from 'lucide-react';
+
+interface NarrationPlayerProps {
+  lecture: LectureContent;
+  language: string;
+  onSectionChange: (sectionIndex: number | null) => void;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.75, 1, 1.25, 1.5, 2];
+
+const NarrationPlayer: React.FC<NarrationPlayerProps> = ({ lecture, language, onSectionChange, onClose }) => {
+  const chunks = useMemo(() => buildNarrationChunks(lecture, language), [lecture, language]);
+
+  const [chunkIndex, setChunkIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isBuffering, setIsBuffering] = useState(true);
+  const [chunkProgress, setChunkProgress] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [isStalled, setIsStalled] = useState(false); // Stopped on a failure that skipping ahead wouldn't get past
+
+  // Refs for the audio pipeline
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const cacheRef = useRef<Map<number, Promise<string | null>>>(new Map());
+  const currentRef = useRef(0);
+  const playTokenRef = useRef(0); // Bumped on every skip so stale loads don't start playing
+  const rateRef = useRef(1);
+  const abortRef = useRef<AbortController | null>(null); // Cancels pending synthesis when the player closes
+
+  // Synthesizes a chunk once; later calls reuse the same request. Rejects when synthesis fails,
+  // and forgets the failure so going back to that part tries again.
+  const loadChunk = (index: number): Promise<string | null> => {
+    const cached = cacheRef.current.get(index);
+    if (cached) return cached;
+    const pending: Promise<string | null> = synthesizeSpeech(chunks[index].text, language, { signal: abortRef.current?.signal })
+      .then(audio => (audio ? speechToObjectUrl(audio) : null))
+      .catch(err => {
+        if (cacheRef.current.get(index) === pending) cacheRef.current.delete(index);
+        throw err;
+      });
+    cacheRef.current.set(index, pending);
+    return pending;
+  };
+
+  const playChunk = async (index: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (index >= chunks.length) {
+      setIsPlaying(false);
+      onClose();
+      return;
+    }
+
+    const token = ++playTokenRef.current;
+    setIsStalled(false);
+    currentRef.current = index;
+    setChunkIndex(index);
+    setChunkProgress(0);
+    setIsBuffering(true);
+    onSectionChange(chunks[index].sectionIndex);
+    audio.pause();
+
+    let url: string | null = null;
+    let failure = '';
+    try {
+      url = await loadChunk(index);
+    } catch (err) {
+      if (isAbortError(err) || token !== playTokenRef.current) return;
+      console.error("Narration synthesis failed", err);
+      // A bad key or a refusal would fail every later part too, so stop here and say why
+      if (!toServiceError(err).isTransient) {
+        const { title, message } = adviceFor(err);
+        setErrorMessage(`${title}. ${message}`);
+        setIsStalled(true);
+        setIsPlaying(false);
+        setIsBuffering(false);
+        return;
+      }
+      failure = ` ${adviceFor(err).message}`;
+    }
+    if (token !== playTokenRef.current) return;
+
+    // Prefetch the next chunk while this one plays; a failure is reported when it is reached
+    if (index + 1 < chunks.length) loadChunk(index + 1).catch(() => {});
+
+    if (!url) {
+      setErrorMessage(`Part of the lecture could not be narrated and was skipped.${failure}`);
+      playChunk(index + 1);
+      return;
+    }
+
+    audio.src = url;
+    audio.playbackRate = rateRef.current;
+    try {
+      await audio.play();
+      setIsPlaying(true);
+    } catch (err) {
+      console.error("Playback failed", err);
+      setIsPlaying(false);
+    } finally {
+      setIsBuffering(false);
+    }
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const audio = new Audio();
+    audioRef.current = audio;
+    audio.onended = () => playChunk(currentRef.current + 1);
+    audio.ontimeupdate = () => {
+      if (audio.duration) setChunkProgress(audio.currentTime / audio.duration);
+    };
+    playChunk(0);
+
+    return () => {
+      controller.abort();
+      playTokenRef.current++;
+      audio.pause();
+      audio.src = '';
+      audioRef.current = null;
+      cacheRef.current.forEach(p => p.then(url => url && URL.revokeObjectURL(url), () => {}));
+      cacheRef.current.clear();
+      onSectionChange(null);
+    };
+  }, [chunks]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio || isBuffering) return;
+    if (isStalled) {
+      setErrorMessage('');
+      playChunk(currentRef.current);
+      return;
+    }
+    if (audio.paused) {
+      audio.play().then(() => setIsPlaying(true)).catch(err => console.error("Playback failed", err));
+    } else {
+      audio.pause();
+      setIsPlaying(false);
+    }
+  };
+
+  const changeRate = (next: number) => {
+    rateRef.current = next;
+    setRate(next);
+    if (audioRef.current) audioRef.current.playbackRate = next;
+  };
+
+  // Jump to the first chunk of the previous/next section (the intro counts as a section)
+  const skipSection = (delta: number) => {
+    const sectionOf = (i: number) => chunks[i].sectionIndex ?? -1;
+    const target = sectionOf(currentRef.current) + delta;
+    // "Previous" part-way through a section restarts it, like a music player
+    if (delta < 0 && audioRef.current && audioRef.current.currentTime > 3) {
+      const restart = chunks.findIndex((_, i) => sectionOf(i) === sectionOf(currentRef.current));
+      playChunk(restart);
+      return;
+    }
+    const index = chunks.findIndex((_, i) => sectionOf(i) === target);
+    if (index >= 0) playChunk(index);
+    else if (delta > 0) onClose();
+  };
+
+  const currentSection = chunks[chunkIndex]?.sectionIndex;
+  const overallProgress = (chunkIndex + chunkProgress) / chunks.length;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[min(640px,calc(100%-2rem))] bg-stone-900 text-white rounded-2xl shadow-2xl border border-stone-700 overflow-hidden animate-fade-in">
+      <div className="h-1 bg-stone-700">
+        <div className="h-full bg-indigo-500 transition-[width] duration-300" style={{ width: `${overallProgress * 100}%` }} />
+      </div>
+      <div className="flex items-center gap-3 p-3 pl-5">
+        <div className="flex-1 min-w-0">
+          <p className="text-xs uppercase tracking-wide text-stone-400 font-bold">
+            {currentSection === null || currentSection === undefined ? "Introduction" : `Section ${currentSection + 1} of ${lecture.sections.length}`}
+          </p>
+          <p className="text-sm truncate">
+            {currentSection === null || currentSection === undefined ? lecture.title : lecture.sections[currentSection]?.heading}
+          </p>
+          {errorMessage && <p className={`text-xs text-amber-300 ${isStalled ? '' : 'truncate'}`}>{errorMessage}</p>}
+        </div>
+
+        {isStalled && (
+          <button
+            onClick={() => {
+              setErrorMessage('');
+              playChunk(currentRef.current);
+            }}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-stone-800 hover:bg-stone-700 text-sm font-medium"
+          >
+            <RotateCcw className="w-4 h-4" /> Retry
+          </button>
+        )}
+
+        <button onClick={() => skipSection(-1)} className="p-2 rounded-full hover:bg-stone-800" title="Previous section">
+          <SkipBack className="w-5 h-5" />
+        </button>
+        <button
+          onClick={togglePlay}
+          className="w-11 h-11 rounded-full bg-indigo-600 hover:bg-indigo-500 flex items-center justify-center"
+          title={isPlaying ? "Pause" : "Play"}
+        >
+          {isBuffering ? <Loader2 className="w-5 h-5 animate-spin" /> : isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+        </button>
+        <button onClick={() => skipSection(1)} className="p-2 rounded-full hover:bg-stone-800" title="Next section">
+          <SkipForward className="w-5 h-5" />
+        </button>
+
+        <select
+          value={rate}
+          onChange={(e) => changeRate(Number(e.target.value))}
+          className="bg-stone-800 border border-stone-700 rounded-lg text-sm px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          title="Playback speed"
+        >
+          {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-stone-800" title="Stop narration">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NarrationPlayer;
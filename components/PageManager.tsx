@@ -0,0 +1,132 @@
+import React, { useRef, useState } from 'react';
+import { UploadedFile } from '../types';
+import { moveFile, rotateUploadedImage } from '../services/uploads';
+import { FileText, RotateCw, X, Loader2, ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PageManagerProps {
+  files: UploadedFile[];
+  /** Receives an update to apply to the current pages, which may have changed since this render. */
+  onChange: (update: (files: UploadedFile[]) => UploadedFile[]) => void;
+}
+
+// The selected pages in the order they are sent; drag a page, or use its arrows, to move it
+const PageManager: React.FC<PageManagerProps> = ({ files, onChange }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [rotating, setRotating] = useState<UploadedFile | null>(null); // Tracked by identity, like the rotation itself
+  // Keys follow the page rather than its position, so a moved page keeps keyboard focus
+  const keysRef = useRef(new WeakMap<UploadedFile, number>());
+  const nextKeyRef = useRef(0);
+
+  const keyOf = (file: UploadedFile) => {
+    if (!keysRef.current.has(file)) keysRef.current.set(file, nextKeyRef.current++);
+    return keysRef.current.get(file)!;
+  };
+
+  const drop = (to: number) => {
+    if (dragIndex !== null && dragIndex !== to) onChange(prev => moveFile(prev, dragIndex, to));
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const move = (file: UploadedFile, offset: number) => onChange(prev => {
+    const from = prev.indexOf(file);
+    const to = from + offset;
+    return from === -1 || to < 0 || to >= prev.length ? prev : moveFile(prev, from, to);
+  });
+
+  const rotate = async (index: number) => {
+    const original = files[index];
+    setRotating(original);
+    try {
+      const rotated = await rotateUploadedImage(original);
+      // Found by identity: the page may have moved, or been removed, while it was turning
+      onChange(prev => prev.map(f => (f === original ? rotated : f)));
+    } catch (e) {
+      console.error("Failed to rotate the photo", e);
+    } finally {
+      setRotating(null);
+    }
+  };
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-2">
+      {files.map((f, i) => (
+        <div
+          key={keyOf(f)}
+          draggable
+          onDragStart={(e) => {
+            setDragIndex(i);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDropIndex(i);
+          }}
+          onDragLeave={() => setDropIndex(prev => (prev === i ? null : prev))}
+          onDrop={(e) => {
+            e.preventDefault();
+            drop(i);
+          }}
+          onDragEnd={() => {
+            setDragIndex(null);
+            setDropIndex(null);
+          }}
+          title={f.name}
+          className={`group/page relative w-20 h-20 shrink-0 rounded-lg overflow-hidden border bg-stone-50 flex items-center justify-center cursor-move transition-all
+            ${dropIndex === i && dragIndex !== i ? 'border-indigo-500 ring-2 ring-indigo-300' : 'border-stone-200'}
+            ${dragIndex === i ? 'opacity-40' : ''}
+          `}
+        >
+          {f.mimeType.startsWith('image/') ? (
+            <img src={`data:${f.mimeType};base64,${f.data}`} className="w-full h-full object-cover pointer-events-none" alt={f.name || `Page ${i + 1}`} />
+          ) : (
+            <FileText className="w-8 h-8 text-red-500" />
+          )}
+          <span className="absolute bottom-1 left-1 px-1.5 rounded bg-black/60 text-white text-[10px] font-bold">{i + 1}</span>
+          {files.length > 1 && (
+            <div className="absolute bottom-1 right-1 flex gap-1 opacity-0 group-hover/page:opacity-100 focus-within:opacity-100 [@media(hover:none)]:opacity-100 transition-opacity">
+              <button
+                onClick={() => move(f, -1)}
+                disabled={i === 0}
+                className="p-1 rounded-full bg-white/90 text-stone-600 hover:text-indigo-600 shadow disabled:opacity-40"
+                title="Move earlier"
+              >
+                <ChevronLeft className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => move(f, 1)}
+                disabled={i === files.length - 1}
+                className="p-1 rounded-full bg-white/90 text-stone-600 hover:text-indigo-600 shadow disabled:opacity-40"
+                title="Move later"
+              >
+                <ChevronRight className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+          <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover/page:opacity-100 focus-within:opacity-100 [@media(hover:none)]:opacity-100 transition-opacity">
+            {f.mimeType.startsWith('image/') && (
+              <button
+                onClick={() => rotate(i)}
+                disabled={rotating !== null}
+                className="p-1 rounded-full bg-white/90 text-stone-600 hover:text-indigo-600 shadow"
+                title="Rotate"
+              >
+                {rotating === f ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCw className="w-3 h-3" />}
+              </button>
+            )}
+            <button
+              onClick={() => onChange(prev => prev.filter(p => p !== f))}
+              className="p-1 rounded-full bg-white/90 text-stone-600 hover:text-red-600 shadow"
+              title="Remove"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PageManager;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { QuizQuestion, QuizAnswer } from '../types';
+import { gradeLocally, isAnswered } from '../services/quiz';
+import QuizQuestionCard from './QuizQuestionCard';
+import { Sparkles, X } from 'lucide-react';
+
+interface PopQuizProps {
+  question: QuizQuestion;
+  sectionHeading?: string;
+  onReviewSection?: (sectionIndex: number) => void;
+  onClose: () => void;
+}
+
+// A single question put on screen by the Live Professor; checked locally, not recorded as an attempt
+const PopQuiz: React.FC<PopQuizProps> = ({ question, sectionHeading, onReviewSection, onClose }) => {
+  const [answer, setAnswer] = useState<QuizAnswer | undefined>(undefined);
+  const [checked, setChecked] = useState(false);
+
+  return (
+    <div className="fixed top-24 left-1/2 -translate-x-1/2 z-40 w-[min(36rem,calc(100%-2rem))] bg-white rounded-3xl shadow-2xl border border-indigo-100 p-6 space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 text-xs font-bold uppercase tracking-wide text-indigo-600">
+          <Sparkles className="w-4 h-4" /> Pop Quiz
+        </p>
+        <button onClick={onClose} className="p-1.5 rounded-full text-stone-400 hover:bg-stone-100" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <QuizQuestionCard
+        question={question}
+        index={0}
+        answer={answer}
+        onAnswer={(next) => !checked && setAnswer(next)}
+        submitted={checked}
+        grade={checked ? gradeLocally(question, answer) ?? undefined : undefined}
+        sectionHeading={sectionHeading}
+        onReviewSection={onReviewSection}
+      />
+
+      <button
+        onClick={() => (checked ? onClose() : setChecked(true))}
+        disabled={!checked && !isAnswered(answer)}
+        className="w-full py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 disabled:bg-stone-300 disabled:cursor-not-allowed transition-all"
+      >
+        {checked ? "Done" : "Check Answer"}
+      </button>
+    </div>
+  );
+};
+
+export default PopQuiz;
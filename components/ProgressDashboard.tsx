@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { BookRecord, QuizHistoryEntry, SavedLecture } from '../types';
+import { listLectures } from '../services/library';
+import { chapterCoverage, formatDuration, frequentlyMissedConcepts, listBooks, listQuizHistory, studyStreak } from '../services/progress';
+import { renderChartSvg } from '../services/diagrams';
+import { formatScore } from '../services/quiz';
+import MarkdownText from './MarkdownText';
+import { BarChart3, Flame, CheckCircle, Circle, Target, Loader2, Lock, ChevronRight } from 'lucide-react';
+
+interface ProgressDashboardProps {
+  onOpenLecture: (record: SavedLecture) => void;
+}
+
+// Enough points to show a trend without crowding the axis labels
+const TREND_LENGTH = 12;
+
+const percent = (entry: QuizHistoryEntry) => (entry.total > 0 ? Math.round((entry.score / entry.total) * 100) : 0);
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ onOpenLecture }) => {
+  const [history, setHistory] = useState<QuizHistoryEntry[]>([]);
+  const [lectures, setLectures] = useState<SavedLecture[]>([]);
+  const [books, setBooks] = useState<BookRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    Promise.all([listQuizHistory(), listLectures(), listBooks()])
+      .then(([h, l, b]) => {
+        setHistory(h);
+        setLectures(l);
+        setBooks(b);
+      })
+      .catch(e => console.error("Failed to load progress", e))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24 text-stone-400">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  const streak = studyStreak([...history.map(h => h.completedAt), ...lectures.map(l => l.createdAt)]);
+  const average = history.length > 0 ? Math.round(history.reduce((sum, h) => sum + percent(h), 0) / history.length) : null;
+  const recent = history.slice(-TREND_LENGTH);
+  const trendSvg = recent.length >= 2
+    ? renderChartSvg({
+        kind: 'line',
+        yLabel: "Score (%)",
+        labels: recent.map(h => new Date(h.completedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })),
+        series: [{ name: "Score", values: recent.map(percent) }],
+      })
+    : null;
+  const coverage = chapterCoverage(books, lectures);
+  const missed = frequentlyMissedConcepts(history);
+  const lectureById = new Map(lectures.map(l => [l.id, l]));
+
+  const stats = [
+    { label: "Quizzes taken", value: String(history.length) },
+    { label: "Average score", value: average !== null ? `${average}%` : "–" },
+    { label: "Current streak", value: `${streak.current} ${streak.current === 1 ? "day" : "days"}` },
+    { label: "Longest streak", value: `${streak.longest} ${streak.longest === 1 ? "day" : "days"}` },
+  ];
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8 animate-fade-in">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <BarChart3 className="w-8 h-8 text-indigo-600" />
+          <h2 className="text-3xl font-serif font-medium">Your Progress</h2>
+        </div>
+        <p className="flex items-center gap-1 text-xs text-stone-400">
+          <Lock className="w-3 h-3" /> Stored only in this browser
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white rounded-2xl border border-stone-100 shadow-sm p-5">
+            <p className="text-xs font-bold uppercase tracking-wide text-stone-400">{stat.label}</p>
+            <p className="text-2xl font-serif text-stone-900 mt-1 flex items-center gap-2">
+              {stat.label === "Current streak" && streak.current > 0 && <Flame className="w-5 h-5 text-orange-500" />}
+              {stat.value}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Score Trend */}
+      <section className="bg-white rounded-3xl border border-stone-100 shadow-sm p-6 space-y-4">
+        <h3 className="text-lg font-serif font-medium text-stone-800">Score Trend</h3>
+        {trendSvg ? (
+          <div className="[&_svg]:max-w-full [&_svg]:h-auto" role="img" aria-label="Quiz scores over time" dangerouslySetInnerHTML={{ __html: trendSvg }} />
+        ) : (
+          <p className="text-sm text-stone-500">Take at least two quizzes to see your trend.</p>
+        )}
+      </section>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Chapter Coverage */}
+        <section className="bg-white rounded-3xl border border-stone-100 shadow-sm p-6 space-y-4">
+          <h3 className="text-lg font-serif font-medium text-stone-800">Chapters Covered</h3>
+          {coverage.length === 0 && <p className="text-sm text-stone-500">Books you study will appear here.</p>}
+          {coverage.map(book => {
+            const studied = book.chapters.filter(c => c.lectureIds.length > 0).length;
+            return (
+              <div key={book.bookId} className="space-y-2">
+                <div className="flex items-baseline justify-between gap-3">
+                  <p className="font-medium text-stone-700 truncate">{book.name}</p>
+                  {book.chapters.length > 0 && <span className="text-xs text-stone-400 shrink-0">{studied} / {book.chapters.length}</span>}
+                </div>
+                {book.fullBookLectureIds.length > 0 && (
+                  <p className="text-xs text-stone-500">Whole book taught in {book.fullBookLectureIds.length} {book.fullBookLectureIds.length === 1 ? "lecture" : "lectures"}</p>
+                )}
+                <ul className="space-y-1">
+                  {book.chapters.map(chapter => {
+                    const record = lectureById.get(chapter.lectureIds[0]);
+                    return (
+                      <li key={chapter.title} className="flex items-center gap-2 text-sm">
+                        {chapter.lectureIds.length > 0
+                          ? <CheckCircle className="w-4 h-4 shrink-0 text-green-500" />
+                          : <Circle className="w-4 h-4 shrink-0 text-stone-300" />}
+                        {record ? (
+                          <button onClick={() => onOpenLecture(record)} className="truncate text-stone-700 hover:text-indigo-600 text-left">{chapter.title}</button>
+                        ) : (
+                          <span className="truncate text-stone-400">{chapter.title}</span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+                {book.chapters.length === 0 && <p className="text-xs text-stone-400">Scan this book for chapters to track coverage.</p>}
+              </div>
+            );
+          })}
+        </section>
+
+        {/* Frequently Missed Concepts */}
+        <section className="bg-white rounded-3xl border border-stone-100 shadow-sm p-6 space-y-4">
+          <h3 className="text-lg font-serif font-medium text-stone-800">Often Missed</h3>
+          {missed.length === 0 && <p className="text-sm text-stone-500">No missed concepts yet.</p>}
+          <ul className="space-y-3">
+            {missed.map(concept => {
+              const record = lectureById.get(concept.lectureId);
+              return (
+                <li key={`${concept.lectureId}:${concept.sectionIndex}`} className="flex items-start gap-3">
+                  <Target className="w-4 h-4 mt-1 shrink-0 text-amber-500" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-stone-700 truncate">{concept.heading}</p>
+                    <p className="text-xs text-stone-400 truncate">
+                      {concept.lectureTitle} &middot; missed {concept.missed} of {concept.asked}
+                    </p>
+                  </div>
+                  {record && (
+                    <button onClick={() => onOpenLecture(record)} className="p-1 text-stone-400 hover:text-indigo-600" title="Open lecture">
+                      <ChevronRight className="w-4 h-4" />
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      </div>
+
+      {/* Quiz History */}
+      <section className="bg-white rounded-3xl border border-stone-100 shadow-sm p-6 space-y-4">
+        <h3 className="text-lg font-serif font-medium text-stone-800">Quiz History</h3>
+        {history.length === 0 && <p className="text-sm text-stone-500">Finished quizzes will appear here.</p>}
+        <div className="divide-y divide-stone-100">
+          {[...history].reverse().map(entry => (
+            <details key={entry.id} className="py-3">
+              <summary className="flex flex-wrap items-center gap-x-4 gap-y-1 cursor-pointer list-none">
+                <span className="text-sm text-stone-500 w-40 shrink-0">{new Date(entry.completedAt).toLocaleString()}</span>
+                <span className="flex-1 min-w-0 truncate text-stone-800">
+                  {entry.lectureTitle}
+                  {entry.chapter && <span className="text-stone-400"> &middot; {entry.chapter}</span>}
+                  {entry.practice && <span className="ml-2 text-xs text-amber-600 font-medium">Practice</span>}
+                </span>
+                <span className="text-sm text-stone-400">{formatDuration(entry.completedAt - entry.startedAt)}</span>
+                <span className="text-sm font-semibold text-stone-800 w-20 text-right">{formatScore(entry.score)} / {entry.total}</span>
+              </summary>
+              <ul className="mt-3 ml-2 space-y-1">
+                {entry.questions.map((q, idx) => (
+                  <li key={idx} className="flex items-start gap-2 text-sm">
+                    {q.score >= 1
+                      ? <CheckCircle className="w-4 h-4 mt-0.5 shrink-0 text-green-500" />
+                      : <Circle className={`w-4 h-4 mt-0.5 shrink-0 ${q.score > 0 ? 'text-amber-500' : 'text-red-400'}`} />}
+                    <MarkdownText text={q.question} inline className="text-stone-600" />
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,233 @@
+import React from 'react';
+import { QuizQuestion, QuizAnswer, QuestionGrade } from '../types';
+import { QUESTION_TYPE_LABELS, formatCorrectAnswer } from '../services/quiz';
+import MarkdownText from './MarkdownText';
+import { CheckCircle, XCircle, ChevronUp, ChevronDown, Square, CheckSquare, Lightbulb, BookOpen } from 'lucide-react';
+
+interface QuizQuestionCardProps {
+  question: QuizQuestion;
+  index: number;
+  answer: QuizAnswer | undefined;
+  onAnswer: (answer: QuizAnswer) => void;
+  submitted: boolean;
+  grade?: QuestionGrade;
+  sectionHeading?: string;
+  onReviewSection?: (sectionIndex: number) => void;
+}
+
+// Shared look for selectable options, mirroring the original multiple-choice buttons
+const optionClass = (isSelected: boolean, isCorrect: boolean, submitted: boolean) => {
+  let cls = "w-full text-left p-4 rounded-xl border transition-all ";
+  if (submitted) {
+    if (isCorrect) cls += "bg-green-50 border-green-200 text-green-800";
+    else if (isSelected) cls += "bg-red-50 border-red-200 text-red-800";
+    else cls += "bg-white border-stone-200 opacity-50";
+  } else {
+    if (isSelected) cls += "bg-indigo-50 border-indigo-200 ring-1 ring-indigo-200 text-indigo-900";
+    else cls += "bg-white border-stone-200 hover:bg-stone-50 text-stone-600";
+  }
+  return cls;
+};
+
+const QuizQuestionCard: React.FC<QuizQuestionCardProps> = ({ question, index, answer, onAnswer, submitted, grade, sectionHeading, onReviewSection }) => {
+
+  // After submission, explain why a wrong option is wrong
+  const renderDistractorNote = (optIdx: number) => {
+    if (!submitted || (question.type !== 'multiple-choice' && question.type !== 'multi-select')) return null;
+    const note = question.distractorNotes?.[optIdx];
+    if (!note) return null;
+    return <MarkdownText text={note} className="text-xs mt-2 text-stone-500 font-normal" />;
+  };
+
+  const renderBody = () => {
+    switch (question.type) {
+      case 'multiple-choice': {
+        const selected = answer?.type === 'multiple-choice' ? answer.selectedIndex : -1;
+        return (
+          <div className="space-y-3">
+            {question.options.map((opt, optIdx) => (
+              <button
+                key={optIdx}
+                onClick={() => onAnswer({ type: 'multiple-choice', selectedIndex: optIdx })}
+                className={optionClass(selected === optIdx, submitted && question.correctAnswerIndex === optIdx, submitted)}
+                disabled={submitted}
+              >
+                <div className="flex items-center justify-between">
+                  <MarkdownText text={opt} inline />
+                  {submitted && question.correctAnswerIndex === optIdx && <CheckCircle className="w-5 h-5 text-green-600" />}
+                </div>
+                {renderDistractorNote(optIdx)}
+              </button>
+            ))}
+          </div>
+        );
+      }
+
+      case 'multi-select': {
+        const selected = answer?.type === 'multi-select' ? answer.selectedIndices : [];
+        const toggle = (optIdx: number) => onAnswer({
+          type: 'multi-select',
+          selectedIndices: selected.includes(optIdx) ? selected.filter(i => i !== optIdx) : [...selected, optIdx].sort((a, b) => a - b)
+        });
+        return (
+          <div className="space-y-3">
+            {question.options.map((opt, optIdx) => {
+              const isSelected = selected.includes(optIdx);
+              return (
+                <button
+                  key={optIdx}
+                  onClick={() => toggle(optIdx)}
+                  className={optionClass(isSelected, submitted && question.correctAnswerIndices.includes(optIdx), submitted)}
+                  disabled={submitted}
+                >
+                  <div className="flex items-center gap-3">
+                    {isSelected ? <CheckSquare className="w-5 h-5 shrink-0" /> : <Square className="w-5 h-5 shrink-0 text-stone-300" />}
+                    <MarkdownText text={opt} inline />
+                  </div>
+                  {renderDistractorNote(optIdx)}
+                </button>
+              );
+            })}
+          </div>
+        );
+      }
+
+      case 'true-false': {
+        const selected = answer?.type === 'true-false' ? answer.value : null;
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            {[true, false].map(value => (
+              <button
+                key={String(value)}
+                onClick={() => onAnswer({ type: 'true-false', value })}
+                className={optionClass(selected === value, submitted && question.correctAnswer === value, submitted) + " text-center"}
+                disabled={submitted}
+              >
+                {value ? "True" : "False"}
+              </button>
+            ))}
+          </div>
+        );
+      }
+
+      case 'fill-blank':
+      case 'short-answer': {
+        const text = answer?.type === question.type ? answer.text : '';
+        const update = (value: string) => onAnswer(
+          question.type === 'fill-blank' ? { type: 'fill-blank', text: value } : { type: 'short-answer', text: value }
+        );
+        return question.type === 'fill-blank' ? (
+          <input
+            value={text}
+            onChange={(e) => update(e.target.value)}
+            disabled={submitted}
+            placeholder="Type the missing word or phrase"
+            className="w-full px-4 py-3 rounded-xl border border-stone-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:bg-stone-50"
+          />
+        ) : (
+          <textarea
+            value={text}
+            onChange={(e) => update(e.target.value)}
+            disabled={submitted}
+            rows={4}
+            placeholder="Answer in a few sentences"
+            className="w-full px-4 py-3 rounded-xl border border-stone-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:bg-stone-50 resize-y"
+          />
+        );
+      }
+
+      case 'ordering': {
+        const order = answer?.type === 'ordering' ? answer.order : question.items.map((_, i) => i);
+        const move = (position: number, delta: number) => {
+          const target = position + delta;
+          if (target < 0 || target >= order.length) return;
+          const next = [...order];
+          [next[position], next[target]] = [next[target], next[position]];
+          onAnswer({ type: 'ordering', order: next });
+        };
+        return (
+          <ol className="space-y-2">
+            {order.map((itemIdx, position) => {
+              const inPlace = itemIdx === position;
+              return (
+                <li
+                  key={itemIdx}
+                  className={`flex items-center gap-3 p-3 rounded-xl border ${
+                    submitted
+                      ? inPlace ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'
+                      : 'bg-white border-stone-200 text-stone-700'
+                  }`}
+                >
+                  <span className="w-6 text-center font-serif text-stone-400">{position + 1}</span>
+                  <MarkdownText text={question.items[itemIdx]} inline className="flex-1" />
+                  {!submitted && (
+                    <div className="flex flex-col">
+                      <button onClick={() => move(position, -1)} disabled={position === 0} className="p-0.5 text-stone-400 hover:text-indigo-600 disabled:opacity-30">
+                        <ChevronUp className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => move(position, 1)} disabled={position === order.length - 1} className="p-0.5 text-stone-400 hover:text-indigo-600 disabled:opacity-30">
+                        <ChevronDown className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        );
+      }
+    }
+  };
+
+  const needsAnswerReveal = question.type === 'fill-blank' || question.type === 'ordering' || question.type === 'short-answer';
+
+  return (
+    <div className="pb-8 border-b border-stone-100 last:border-0 last:pb-0">
+      <span className="inline-block text-[11px] font-bold uppercase tracking-wide text-stone-400 mb-1">
+        {QUESTION_TYPE_LABELS[question.type]}
+      </span>
+      <div className="flex gap-1.5 text-lg font-medium text-stone-800 mb-4">
+        <span>{index + 1}.</span>
+        <MarkdownText text={question.question} className="flex-1 space-y-2" />
+      </div>
+      {renderBody()}
+
+      {submitted && grade && (
+        <div className={`mt-4 p-4 rounded-xl text-sm flex gap-3 ${grade.score >= 1 ? 'bg-green-50 text-green-800' : grade.score > 0 ? 'bg-amber-50 text-amber-800' : 'bg-red-50 text-red-800'}`}>
+          {grade.score >= 1 ? <CheckCircle className="w-5 h-5 shrink-0" /> : <XCircle className="w-5 h-5 shrink-0" />}
+          <div className="space-y-1">
+            <p className="font-semibold">
+              {grade.score >= 1 ? "Correct" : grade.score > 0 ? `Partial credit: ${Math.round(grade.score * 100)}%` : "Incorrect"}
+            </p>
+            {grade.feedback && <MarkdownText text={grade.feedback} />}
+            {needsAnswerReveal && grade.score < 1 && (
+              <p><span className="font-medium">{question.type === 'short-answer' ? "Model answer" : "Correct answer"}:</span> <MarkdownText text={formatCorrectAnswer(question)} inline /></p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {submitted && (question.explanation || question.sectionIndex !== undefined) && (
+        <div className="mt-3 p-4 rounded-xl bg-stone-50 border border-stone-100 text-sm text-stone-600 space-y-3">
+          {question.explanation && (
+            <p className="flex gap-3">
+              <Lightbulb className="w-5 h-5 shrink-0 text-amber-500" />
+              <MarkdownText text={question.explanation} />
+            </p>
+          )}
+          {question.sectionIndex !== undefined && onReviewSection && (
+            <button
+              onClick={() => onReviewSection(question.sectionIndex!)}
+              className="flex items-center gap-2 text-indigo-600 hover:text-indigo-800 font-medium"
+            >
+              <BookOpen className="w-4 h-4" />
+              Review this section{sectionHeading ? `: ${sectionHeading}` : ''}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizQuestionCard;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { QuizConfig, QuestionType } from '../types';
+import { ALL_QUESTION_TYPES, QUESTION_TYPE_LABELS } from '../services/quiz';
+
+interface QuizSettingsProps {
+  config: QuizConfig;
+  onChange: (config: QuizConfig) => void;
+}
+
+const QuizSettings: React.FC<QuizSettingsProps> = ({ config, onChange }) => {
+  const toggleType = (type: QuestionType) => {
+    const enabled = config.questionTypes.includes(type);
+    // Keep at least one type selected
+    if (enabled && config.questionTypes.length === 1) return;
+    onChange({
+      ...config,
+      questionTypes: enabled
+        ? config.questionTypes.filter(t => t !== type)
+        : ALL_QUESTION_TYPES.filter(t => t === type || config.questionTypes.includes(t))
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-3 text-sm text-stone-600">
+        <span className="font-medium">Questions</span>
+        <input
+          type="range"
+          min={3}
+          max={15}
+          value={config.questionCount}
+          onChange={(e) => onChange({ ...config, questionCount: Number(e.target.value) })}
+          className="flex-1 accent-indigo-600"
+        />
+        <span className="w-6 text-right font-semibold text-stone-800">{config.questionCount}</span>
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {ALL_QUESTION_TYPES.map(type => {
+          const enabled = config.questionTypes.includes(type);
+          return (
+            <button
+              key={type}
+              onClick={() => toggleType(type)}
+              className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                enabled ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-stone-200 text-stone-400 hover:text-stone-600'
+              }`}
+            >
+              {QUESTION_TYPE_LABELS[type]}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default QuizSettings;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { ImageAspectRatio, LectureSection, VisualType } from '../types';
+import { visualTypeOf } from '../services/diagrams';
+import DiagramView from './DiagramView';
+import { Image as ImageIcon, Loader2, AlertTriangle, RefreshCw, Pencil, Workflow } from 'lucide-react';
+
+export type SectionImageJob = { status: 'drawing' } | { status: 'error'; message: string };
+
+interface SectionVisualProps {
+  section: LectureSection;
+  imageUrl?: string;
+  job?: SectionImageJob;
+  onRedraw: (prompt: string, aspectRatio: ImageAspectRatio) => void;
+  onChangeType: (type: VisualType) => void;
+}
+
+const ASPECT_RATIOS: { value: ImageAspectRatio; label: string; className: string }[] = [
+  { value: '16:9', label: "Wide", className: "aspect-video" },
+  { value: '4:3', label: "Classic", className: "aspect-[4/3]" },
+  { value: '1:1', label: "Square", className: "aspect-square" },
+  { value: '3:4', label: "Tall", className: "aspect-[3/4] max-w-md mx-auto" },
+];
+
+const SectionVisual: React.FC<SectionVisualProps> = ({ section, imageUrl, job, onRedraw, onChangeType }) => {
+  const aspectRatio = section.visualAspectRatio ?? '16:9';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftPrompt, setDraftPrompt] = useState(section.visualPrompt);
+  const [draftRatio, setDraftRatio] = useState<ImageAspectRatio>(aspectRatio);
+  const isDrawing = job?.status === 'drawing';
+
+  const startEditing = () => {
+    setDraftPrompt(section.visualPrompt);
+    setDraftRatio(aspectRatio);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draftPrompt.trim()) return;
+    onRedraw(draftPrompt.trim(), draftRatio);
+    setIsEditing(false);
+  };
+
+  // A text diagram the model wrote for this section, kept when the student switches to a picture
+  const textDiagramType: VisualType | null = section.mermaid ? 'mermaid' : section.chart ? 'chart' : null;
+
+  if (visualTypeOf(section) !== 'image') {
+    return (
+      <div className="bg-white rounded-2xl border border-stone-200 relative overflow-hidden">
+        <DiagramView section={section} />
+        <p className="px-6 pb-4 text-xs text-stone-500 text-center">{section.visualPrompt}</p>
+        <div className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          <button onClick={() => onChangeType('image')} className="p-2 rounded-full bg-white/90 text-stone-700 shadow border border-stone-100 hover:bg-white" title="Draw as a picture instead">
+            <ImageIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className={`bg-stone-100 rounded-2xl overflow-hidden border border-stone-200 relative flex items-center justify-center ${ASPECT_RATIOS.find(r => r.value === aspectRatio)?.className}`}>
+        {imageUrl && (
+          <img
+            src={imageUrl}
+            alt={section.visualPrompt}
+            className={`w-full h-full object-cover transition-all duration-700 hover:scale-105 ${isDrawing ? 'opacity-40 blur-sm' : ''}`}
+          />
+        )}
+
+        {isDrawing ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-stone-500">
+            {imageUrl ? <Loader2 className="w-8 h-8 mb-2 animate-spin" /> : <ImageIcon className="w-8 h-8 mb-2 animate-pulse" />}
+            <span className="text-sm">{imageUrl ? "Redrawing diagram..." : "Drawing diagram..."}</span>
+          </div>
+        ) : job?.status === 'error' ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 p-6 text-center bg-red-50/90">
+            <AlertTriangle className="w-8 h-8 text-red-400" />
+            <p className="text-sm text-red-700 font-medium">This diagram couldn't be drawn.</p>
+            <p className="text-xs text-red-500 max-w-sm">{job.message}</p>
+            <button
+              onClick={() => onRedraw(section.visualPrompt, aspectRatio)}
+              className="flex items-center gap-2 px-4 py-2 rounded-full bg-white border border-red-200 text-red-700 text-sm font-medium hover:bg-red-100 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" /> Retry
+            </button>
+          </div>
+        ) : !imageUrl && (
+          <button
+            onClick={() => onRedraw(section.visualPrompt, aspectRatio)}
+            className="flex flex-col items-center text-stone-400 hover:text-indigo-600 transition-colors"
+          >
+            <ImageIcon className="w-8 h-8 mb-2" />
+            <span className="text-sm">Draw diagram</span>
+          </button>
+        )}
+
+        {imageUrl && !isDrawing && (
+          <>
+            <div className="absolute top-3 right-3 flex gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <button onClick={() => onRedraw(section.visualPrompt, aspectRatio)} className="p-2 rounded-full bg-white/90 text-stone-700 shadow hover:bg-white" title="Regenerate diagram">
+                <RefreshCw className="w-4 h-4" />
+              </button>
+              <button onClick={startEditing} className="p-2 rounded-full bg-white/90 text-stone-700 shadow hover:bg-white" title="Edit prompt or shape">
+                <Pencil className="w-4 h-4" />
+              </button>
+              {textDiagramType && (
+                <button onClick={() => onChangeType(textDiagramType)} className="p-2 rounded-full bg-white/90 text-stone-700 shadow hover:bg-white" title="Show the text diagram">
+                  <Workflow className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/60 to-transparent p-4 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+              <p className="text-white text-xs">{section.visualPrompt}</p>
+            </div>
+          </>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="bg-white rounded-2xl border border-stone-200 p-4 space-y-3 animate-fade-in">
+          <label className="block text-xs font-bold uppercase tracking-wide text-stone-400">Diagram description</label>
+          <textarea
+            value={draftPrompt}
+            onChange={(e) => setDraftPrompt(e.target.value)}
+            rows={3}
+            className="w-full px-3 py-2 rounded-lg border border-stone-300 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+          />
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex gap-2">
+              {ASPECT_RATIOS.map(r => (
+                <button
+                  key={r.value}
+                  onClick={() => setDraftRatio(r.value)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${draftRatio === r.value ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-stone-200 text-stone-500 hover:bg-stone-50'}`}
+                >
+                  {r.label} {r.value}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => setIsEditing(false)} className="px-4 py-2 rounded-full text-sm text-stone-500 hover:bg-stone-100">
+                Cancel
+              </button>
+              <button
+                onClick={submitEdit}
+                disabled={!draftPrompt.trim()}
+                className="px-4 py-2 rounded-full text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-stone-300"
+              >
+                Draw
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SectionVisual;
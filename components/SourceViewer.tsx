@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { SourceCitation, UploadedFile } from '../types';
+import { formatCitation } from '../services/citations';
+import { FileText, Quote, X } from 'lucide-react';
+
+interface SourceViewerProps {
+  files: UploadedFile[];
+  citation: SourceCitation;
+  onClose: () => void;
+}
+
+// Shows the cited page next to the quoted passage so the student can check the lecture against the book
+const SourceViewer: React.FC<SourceViewerProps> = ({ files, citation, onClose }) => {
+  const file = files[citation.fileIndex];
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  // PDFs open in the browser's viewer, which needs a blob URL to honour #page=
+  useEffect(() => {
+    if (!file || file.mimeType !== 'application/pdf') return;
+    const bytes = Uint8Array.from(atob(file.data), c => c.charCodeAt(0));
+    const url = URL.createObjectURL(new Blob([bytes], { type: file.mimeType }));
+    setObjectUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setObjectUrl(null);
+    };
+  }, [file]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 md:p-8" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-5xl h-full max-h-[90vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-stone-100">
+          <p className="flex items-center gap-2 font-medium text-stone-800 truncate">
+            <FileText className="w-5 h-5 text-indigo-600 shrink-0" />
+            {formatCitation(citation, files)}
+          </p>
+          <button onClick={onClose} className="p-2 rounded-full text-stone-400 hover:bg-stone-100" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <blockquote className="flex gap-3 mx-6 my-4 p-4 bg-amber-50 border-l-4 border-amber-300 rounded-r-xl text-stone-700">
+          <Quote className="w-5 h-5 text-amber-500 shrink-0" />
+          <span className="italic">{citation.quote}</span>
+        </blockquote>
+
+        <div className="flex-1 min-h-0 bg-stone-100">
+          {!file ? (
+            <p className="p-8 text-center text-stone-500">This source file is no longer available.</p>
+          ) : file.mimeType === 'application/pdf' ? (
+            objectUrl && (
+              <iframe
+                key={`${objectUrl}-${citation.page ?? 1}`}
+                src={`${objectUrl}#page=${citation.page ?? 1}`}
+                title={formatCitation(citation, files)}
+                className="w-full h-full"
+              />
+            )
+          ) : (
+            <img
+              src={`data:${file.mimeType};base64,${file.data}`}
+              alt={formatCitation(citation, files)}
+              className="w-full h-full object-contain"
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import { Toast, ToastKind, dismissToast, subscribeToToasts } from '../services/toasts';
+import { AlertTriangle, CheckCircle, Info, X } from 'lucide-react';
+
+const KIND_STYLES: Record<ToastKind, { icon: typeof Info; className: string }> = {
+  error: { icon: AlertTriangle, className: "border-red-200 text-red-600" },
+  info: { icon: Info, className: "border-indigo-200 text-indigo-600" },
+  success: { icon: CheckCircle, className: "border-green-200 text-green-600" },
+};
+
+// Renders the toasts raised through services/toasts.ts, newest at the bottom
+const ToastViewport: React.FC = () => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  useEffect(() => subscribeToToasts(setToasts), []);
+
+  return (
+    <div className="fixed bottom-6 right-6 z-[60] flex flex-col gap-3 w-full max-w-sm pointer-events-none" aria-live="polite">
+      {toasts.map((toast: Toast) => {
+        const { icon: Icon, className } = KIND_STYLES[toast.kind];
+        return (
+          <div
+            key={toast.id}
+            role={toast.kind === 'error' ? 'alert' : 'status'}
+            className={`pointer-events-auto bg-white rounded-xl shadow-lg border p-4 flex items-start gap-3 animate-fade-in ${className}`}
+          >
+            <Icon className="w-5 h-5 shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-semibold text-stone-800">{toast.title}</p>
+              {toast.message && <p className="text-sm text-stone-600 mt-0.5">{toast.message}</p>}
+            </div>
+            <button onClick={() => dismissToast(toast.id)} className="p-1 rounded-full hover:bg-stone-100 text-stone-400" title="Dismiss">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ToastViewport;
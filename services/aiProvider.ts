@@ -0,0 +1,89 @@
+import { LectureContent, QuizQuestion, UploadedFile, QuizConfig, ShortAnswerQuestion, QuestionGrade, FlashcardDraft, QuizContext, TranscriptTurn, ImageAspectRatio, LectureSettings, Syllabus } from "../types";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createMockProvider } from "./providers/mockProvider";
+import { PartialLecture } from "./streamingJson";
+
+// --- Provider Contract ---
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface LectureStreamOptions extends RequestOptions {
+  /** Called whenever more of the lecture is complete: title and summary first, then each finished section. */
+  onProgress?: (partial: PartialLecture) => void;
+}
+
+export interface ImageOptions extends RequestOptions {
+  aspectRatio?: ImageAspectRatio; // Defaults to 16:9
+}
+
+export interface ChatStreamOptions extends RequestOptions {
+  /** Called with each new piece of the reply as it streams in. */
+  onChunk?: (text: string) => void;
+}
+
+export interface TranslatedLecture {
+  lecture: LectureContent;
+  quiz: QuizQuestion[];
+}
+
+export interface SpeechAudio {
+  data: string; // Base64
+  mimeType: string;
+}
+
+/**
+ * Everything the app asks of a generative backend. Implementations return
+ * domain objects so the UI never depends on a particular SDK. Every call can be
+ * cancelled through its `signal`; failures may be raw SDK errors, which the
+ * facade in gemini.ts turns into ServiceErrors.
+ */
+export interface AIProvider {
+  name: string;
+  extractChapters(files: UploadedFile[], options?: RequestOptions): Promise<string[]>;
+  /** Plans a course with one entry per detected chapter, in the same order. */
+  generateSyllabus(files: UploadedFile[], chapters: string[], language: string, teachingLanguage: string, settings: LectureSettings, options?: RequestOptions): Promise<Syllabus>;
+  /** `language` is the book's language; the lecture is written in `teachingLanguage` and pitched by `settings`. */
+  generateLecture(files: UploadedFile[], language: string, teachingLanguage: string, settings: LectureSettings, focusTopic?: string, options?: LectureStreamOptions): Promise<LectureContent>;
+  /** Resolves to a data URL; rejects when no image could be made. */
+  generateLectureImage(prompt: string, options?: ImageOptions): Promise<string>;
+  generateQuiz(lectureContent: LectureContent, config: QuizConfig, context?: QuizContext, options?: RequestOptions): Promise<QuizQuestion[]>;
+  gradeShortAnswer(question: ShortAnswerQuestion, answer: string, options?: RequestOptions): Promise<QuestionGrade>;
+  generateFlashcards(lectureContent: LectureContent, language?: string, options?: RequestOptions): Promise<FlashcardDraft[]>;
+  synthesizeSpeech(text: string, language?: string, options?: RequestOptions): Promise<SpeechAudio | null>;
+  /** Typed conversation with the professor; `history` ends with the student's new message. */
+  chatWithProfessor(files: UploadedFile[], systemInstruction: string, history: TranscriptTurn[], options?: ChatStreamOptions): Promise<string>;
+  /** Rewrites a finished lecture and its quiz in another language, keeping structure and answers. */
+  translateLecture(lectureContent: LectureContent, quiz: QuizQuestion[], language: string, options?: RequestOptions): Promise<TranslatedLecture>;
+}
+
+// --- Provider Selection ---
+
+const createProvider = (name: string): AIProvider => {
+  switch (name) {
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    case '':
+      return createGeminiProvider(process.env.API_KEY || '');
+    default:
+      console.warn(`Unknown AI_PROVIDER "${name}", falling back to gemini`);
+      return createGeminiProvider(process.env.API_KEY || '');
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+// Picked once from the AI_PROVIDER env var (see vite.config.ts) on first use.
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider((process.env.AI_PROVIDER || 'gemini').toLowerCase());
+  }
+  return activeProvider;
+};
+
+// Swap the backend at runtime, e.g. to inject a mock with custom fixtures in tests.
+export const setAIProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
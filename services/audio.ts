@@ -0,0 +1,73 @@
+import { SpeechAudio } from "./aiProvider";
+
+// --- Audio Decoding ---
+
+const parseSampleRate = (mimeType: string, fallback: number) => {
+  const match = /rate=(\d+)/.exec(mimeType);
+  return match ? parseInt(match[1], 10) : fallback;
+};
+
+const base64ToBytes = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+/**
+ * Turns synthesized speech into a playable buffer. Raw PCM (what the Gemini TTS
+ * model sends) is converted by hand; container formats go through the browser decoder.
+ */
+export const decodeSpeechAudio = async (audio: SpeechAudio, ctx: BaseAudioContext): Promise<AudioBuffer> => {
+  const bytes = base64ToBytes(audio.data);
+  const isRawPcm = /audio\/(pcm|l16)/i.test(audio.mimeType);
+
+  if (!isRawPcm) {
+    return ctx.decodeAudioData(bytes.buffer);
+  }
+
+  const dataInt16 = new Int16Array(bytes.buffer, 0, Math.floor(bytes.byteLength / 2));
+  const buffer = ctx.createBuffer(1, dataInt16.length, parseSampleRate(audio.mimeType, 24000));
+  const channelData = buffer.getChannelData(0);
+  for (let i = 0; i < dataInt16.length; i++) {
+    channelData[i] = dataInt16[i] / 32768.0;
+  }
+  return buffer;
+};
+
+export const createAudioContext = (options?: AudioContextOptions): AudioContext =>
+  new (window.AudioContext || (window as any).webkitAudioContext)(options);
+
+// --- Playable Files ---
+
+/** Wraps 16-bit mono PCM samples in a WAV container. */
+export const encodeWav = (pcm: Uint8Array, sampleRate: number): Uint8Array => {
+  const wav = new Uint8Array(44 + pcm.byteLength);
+  const view = new DataView(wav.buffer);
+  const writeString = (offset: number, s: string) => {
+    for (let i = 0; i < s.length; i++) view.setUint8(offset + i, s.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  wav.set(pcm, 44);
+  return wav;
+};
+
+/**
+ * Object URL for an <audio> element. Media elements keep pitch when the playback
+ * rate changes, which AudioBufferSourceNode does not, so narration plays through them.
+ */
+export const speechToObjectUrl = (audio: SpeechAudio): string => {
+  const bytes = base64ToBytes(audio.data);
+  const blob = /audio\/(pcm|l16)/i.test(audio.mimeType)
+    ? new Blob([encodeWav(bytes, parseSampleRate(audio.mimeType, 24000))], { type: 'audio/wav' })
+    : new Blob([bytes], { type: audio.mimeType });
+  return URL.createObjectURL(blob);
+};
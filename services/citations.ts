@@ -0,0 +1,30 @@
+import { LectureSection, SourceCitation } from "../types";
+
+// --- Source Citations ---
+
+// Works with both uploaded files and the metadata saved in the library
+export type CitedFile = { name?: string; mimeType: string };
+
+const isPdf = (file: CitedFile) => file.mimeType === 'application/pdf';
+
+/** Drops citations that point outside the uploaded files; pages only make sense for PDFs. */
+export const normalizeCitations = (raw: Partial<SourceCitation>[] | undefined, files: CitedFile[]): SourceCitation[] =>
+  (raw ?? []).flatMap(c => {
+    const quote = c.quote?.trim();
+    const fileIndex = c.fileIndex;
+    if (!quote || typeof fileIndex !== 'number' || !Number.isInteger(fileIndex) || fileIndex < 0 || fileIndex >= files.length) {
+      return [];
+    }
+    const page = isPdf(files[fileIndex]) && typeof c.page === 'number' && c.page >= 1 ? Math.floor(c.page) : undefined;
+    return [{ fileIndex, page, quote }];
+  });
+
+export const normalizeSectionCitations = (sections: LectureSection[], files: CitedFile[]): LectureSection[] =>
+  sections.map(section => ({ ...section, citations: normalizeCitations(section.citations, files) }));
+
+/** Short reference such as "biology.pdf, p. 12" or "Photo 3". */
+export const formatCitation = (citation: SourceCitation, files: CitedFile[]): string => {
+  const file = files[citation.fileIndex];
+  const name = file?.name || (file && !isPdf(file) ? `Photo ${citation.fileIndex + 1}` : `File ${citation.fileIndex + 1}`);
+  return citation.page ? `${name}, p. ${citation.page}` : name;
+};
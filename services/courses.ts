@@ -0,0 +1,159 @@
+import { Course, CourseChapter, LectureContent, LectureSettings, Language, QuizAttempt, Syllabus, SyllabusChapter, UploadedFile } from "../types";
+import { STORES, createId, promisifyRequest, withStore } from "./db";
+import { describeSourceFiles } from "./library";
+
+// --- Courses ---
+// A course teaches a whole book one chapter at a time. Chapter lectures are
+// generated only when the student starts them, and a chapter opens once the
+// chapters it builds on have been passed.
+
+/** Share of a chapter quiz needed to pass it and unlock the chapters that build on it. */
+export const COURSE_PASS_MARK = 0.7;
+
+// Enough to touch every chapter at least twice without a marathon
+const MIN_EXAM_QUESTIONS = 10;
+const MAX_EXAM_QUESTIONS = 20;
+
+const cleanStrings = (values: unknown): string[] =>
+  Array.isArray(values) ? values.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()) : [];
+
+/**
+ * One syllabus entry per detected chapter, in order, whatever the model returned.
+ * Titles are kept exactly as detected so they can focus each chapter's lecture,
+ * and prerequisites may only point backwards, so the course can always be completed.
+ */
+export const normalizeSyllabus = (raw: Partial<Syllabus>, chapterTitles: string[]): Syllabus => {
+  const entries: Partial<SyllabusChapter>[] = Array.isArray(raw.chapters) ? raw.chapters : [];
+  const chapters = chapterTitles.map((title, idx): SyllabusChapter => {
+    const entry = entries.find(e => e?.title?.trim() === title.trim()) ?? entries[idx] ?? {};
+    const prerequisites = Array.from(new Set(
+      (Array.isArray(entry.prerequisites) ? entry.prerequisites : []).filter(p => Number.isInteger(p) && p >= 0 && p < idx)
+    )).sort((a, b) => a - b);
+    return {
+      title,
+      summary: typeof entry.summary === 'string' ? entry.summary.trim() : '',
+      objectives: cleanStrings(entry.objectives),
+      // Without a stated prerequisite the chapters are taken in book order
+      prerequisites: prerequisites.length > 0 || idx === 0 ? prerequisites : [idx - 1],
+    };
+  });
+  return {
+    title: raw.title?.trim() || chapterTitles[0] || "Untitled course",
+    description: raw.description?.trim() ?? '',
+    chapters,
+  };
+};
+
+export const createCourse = (
+  files: UploadedFile[],
+  syllabus: Syllabus,
+  language: Language,
+  teachingLanguage: Language,
+  settings: LectureSettings
+): Course => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    title: syllabus.title,
+    description: syllabus.description,
+    createdAt: now,
+    updatedAt: now,
+    files,
+    sourceFiles: describeSourceFiles(files),
+    language,
+    teachingLanguage,
+    settings,
+    chapters: syllabus.chapters.map(c => ({ ...c, passed: false })),
+    examAttempts: [],
+  };
+};
+
+// --- Storage ---
+
+export const saveCourse = (course: Course): Promise<Course> =>
+  withStore(STORES.courses, 'readwrite', async (store) => {
+    const record = { ...course, updatedAt: Date.now() };
+    await promisifyRequest(store.put(record));
+    return record;
+  });
+
+export const getCourse = (id: string): Promise<Course | undefined> =>
+  withStore(STORES.courses, 'readonly', (store) => promisifyRequest<Course | undefined>(store.get(id)));
+
+/** Most recently studied first. */
+export const listCourses = async (): Promise<Course[]> => {
+  const all = await withStore(STORES.courses, 'readonly', (store) => promisifyRequest<Course[]>(store.getAll()));
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/** Removes the course only; its chapter lectures stay in the library. */
+export const deleteCourse = (id: string): Promise<void> =>
+  withStore(STORES.courses, 'readwrite', async (store) => {
+    await promisifyRequest(store.delete(id));
+  });
+
+/** Reads, changes and writes a course in one transaction; resolves to undefined if it was deleted. */
+export const updateCourse = (id: string, change: (course: Course) => Course): Promise<Course | undefined> =>
+  withStore(STORES.courses, 'readwrite', async (store) => {
+    const existing = await promisifyRequest<Course | undefined>(store.get(id));
+    if (!existing) return undefined;
+    const record = { ...change(existing), updatedAt: Date.now() };
+    await promisifyRequest(store.put(record));
+    return record;
+  });
+
+// --- Progress ---
+
+const updateChapter = (course: Course, chapterIndex: number, change: (chapter: CourseChapter) => CourseChapter): Course => ({
+  ...course,
+  chapters: course.chapters.map((c, i) => (i === chapterIndex ? change(c) : c)),
+});
+
+export const linkChapterLecture = (course: Course, chapterIndex: number, lectureId: string): Course =>
+  updateChapter(course, chapterIndex, c => ({ ...c, lectureId }));
+
+/** Keeps the best result; a chapter stays passed once it has been passed. */
+export const recordChapterScore = (course: Course, chapterIndex: number, ratio: number): Course =>
+  updateChapter(course, chapterIndex, c => ({
+    ...c,
+    bestScore: Math.max(c.bestScore ?? 0, ratio),
+    passed: c.passed || ratio >= COURSE_PASS_MARK,
+  }));
+
+export const recordExamAttempt = (course: Course, attempt: QuizAttempt): Course => ({
+  ...course,
+  examAttempts: [...course.examAttempts, attempt],
+});
+
+export const isChapterUnlocked = (course: Course, chapterIndex: number) =>
+  course.chapters[chapterIndex]?.prerequisites.every(p => course.chapters[p]?.passed) ?? false;
+
+export const isExamUnlocked = (course: Course) =>
+  course.chapters.length > 0 && course.chapters.every(c => c.passed);
+
+export const passedChapterCount = (course: Course) => course.chapters.filter(c => c.passed).length;
+
+// --- Final Exam ---
+
+export const examQuestionCount = (course: Course) =>
+  Math.min(MAX_EXAM_QUESTIONS, Math.max(MIN_EXAM_QUESTIONS, course.chapters.length * 3));
+
+/**
+ * All chapter lectures joined into one, so the quiz generator can write a cumulative
+ * exam. `sectionChapters[i]` is the chapter that section `i` comes from.
+ */
+export const buildExamLecture = (course: Course, lectures: LectureContent[]) => {
+  const sectionChapters: number[] = [];
+  const sections = lectures.flatMap((lecture, chapterIndex) =>
+    lecture.sections.map(section => {
+      sectionChapters.push(chapterIndex);
+      return { ...section, heading: `${course.chapters[chapterIndex]?.title ?? lecture.title}: ${section.heading}` };
+    })
+  );
+  const lecture: LectureContent = {
+    title: `${course.title}: Final Exam`,
+    summary: course.description,
+    sections,
+  };
+  return { lecture, sectionChapters };
+};
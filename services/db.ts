@@ -0,0 +1,80 @@
+// --- IndexedDB Plumbing ---
+
+const DB_NAME = 'profai';
+const DB_VERSION = 4;
+
+export const STORES = {
+  lectures: 'lectures',
+  flashcards: 'flashcards',
+  quizHistory: 'quizHistory',
+  books: 'books',
+  courses: 'courses',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const lectures = db.createObjectStore(STORES.lectures, { keyPath: 'id' });
+    lectures.createIndex('updatedAt', 'updatedAt');
+  }
+  if (oldVersion < 2) {
+    const flashcards = db.createObjectStore(STORES.flashcards, { keyPath: 'id' });
+    flashcards.createIndex('dueAt', 'dueAt');
+    flashcards.createIndex('lectureId', 'lectureId');
+  }
+  if (oldVersion < 3) {
+    const history = db.createObjectStore(STORES.quizHistory, { keyPath: 'id' });
+    history.createIndex('completedAt', 'completedAt');
+    history.createIndex('lectureId', 'lectureId');
+    db.createObjectStore(STORES.books, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    const courses = db.createObjectStore(STORES.courses, { keyPath: 'id' });
+    courses.createIndex('updatedAt', 'updatedAt');
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Runs `work` inside a transaction and resolves with its result once the transaction commits. */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await work(tx.objectStore(storeName));
+  await done;
+  return result;
+};
+
+export const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,198 @@
+import { ChartSpec, LectureSection, VisualType } from "../types";
+
+// --- Text Diagrams ---
+// Mermaid diagrams and charts are drawn in the browser from text the model writes,
+// so their labels stay crisp and they need no image generation.
+
+export const visualTypeOf = (section: LectureSection): VisualType => section.visualType ?? 'image';
+
+// Models sometimes wrap the source in a Markdown code fence
+const stripCodeFence = (source: string) =>
+  source.trim().replace(/^```(?:mermaid)?\s*\n?/i, '').replace(/\n?```$/, '').trim();
+
+const normalizeChart = (raw: Partial<ChartSpec> | undefined): ChartSpec | undefined => {
+  const labels = raw?.labels?.map(l => String(l)) ?? [];
+  if (labels.length === 0) return undefined;
+  // Every series needs one finite value per label
+  const series = (raw?.series ?? [])
+    .map(s => ({ name: s?.name?.trim() || '', values: (s?.values ?? []).map(Number) }))
+    .filter(s => s.values.length === labels.length && s.values.every(Number.isFinite));
+  if (series.length === 0) return undefined;
+
+  const kind = raw?.kind === 'line' || raw?.kind === 'pie' ? raw.kind : 'bar';
+  if (kind === 'pie' && series[0].values.some(v => v < 0)) return undefined;
+  return {
+    kind,
+    title: raw?.title?.trim() || undefined,
+    xLabel: raw?.xLabel?.trim() || undefined,
+    yLabel: raw?.yLabel?.trim() || undefined,
+    labels,
+    series,
+  };
+};
+
+/** Keeps only the fields of the chosen visual type; unusable text diagrams fall back to a generated image. */
+export const normalizeSectionVisual = (section: LectureSection): LectureSection => {
+  const { mermaid, chart, ...rest } = section;
+  if (section.visualType === 'mermaid' && mermaid?.trim()) {
+    return { ...rest, visualType: 'mermaid', mermaid: stripCodeFence(mermaid) };
+  }
+  if (section.visualType === 'chart') {
+    const spec = normalizeChart(chart);
+    if (spec) return { ...rest, visualType: 'chart', chart: spec };
+  }
+  return { ...rest, visualType: 'image' };
+};
+
+// --- Charts ---
+
+const WIDTH = 800;
+const HEIGHT = 450;
+const COLORS = ['#6366f1', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#0ea5e9', '#ec4899', '#84cc16'];
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+const formatValue = (value: number) => String(Number(value.toFixed(2)));
+
+// Step of 1, 2 or 5 times a power of ten, so axis ticks land on round numbers
+const niceStep = (range: number, ticks: number) => {
+  const raw = range / ticks;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].find(m => m * magnitude >= raw) ?? 10;
+  return step * magnitude;
+};
+
+const text = (x: number, y: number, content: string, attrs = '') =>
+  `<text x="${x}" y="${y}" font-size="14" fill="#57534e" font-family="system-ui, sans-serif" ${attrs}>${escapeXml(content)}</text>`;
+
+const legend = (names: string[], x: number, y: number) =>
+  names.map((name, i) =>
+    `<rect x="${x}" y="${y + i * 22}" width="14" height="14" rx="3" fill="${COLORS[i % COLORS.length]}"/>` +
+    text(x + 22, y + i * 22 + 12, truncate(name, 28))
+  ).join('');
+
+const renderPie = (spec: ChartSpec, top: number) => {
+  const values = spec.series[0].values;
+  const total = values.reduce((sum, v) => sum + v, 0) || 1;
+  const r = Math.min(170, (HEIGHT - top - 30) / 2);
+  const cx = 60 + r;
+  const cy = top + (HEIGHT - top) / 2;
+  let angle = -Math.PI / 2;
+
+  const slices = values.map((value, i) => {
+    const color = COLORS[i % COLORS.length];
+    if (value / total >= 0.9999) return `<circle cx="${cx}" cy="${cy}" r="${r}" fill="${color}"/>`;
+    const start = angle;
+    angle += (value / total) * Math.PI * 2;
+    const large = angle - start > Math.PI ? 1 : 0;
+    const point = (a: number) => `${cx + r * Math.cos(a)} ${cy + r * Math.sin(a)}`;
+    return `<path d="M ${cx} ${cy} L ${point(start)} A ${r} ${r} 0 ${large} 1 ${point(angle)} Z" fill="${color}" stroke="#fff" stroke-width="2"/>`;
+  }).join('');
+
+  const names = spec.labels.map((label, i) => `${label} (${Math.round((values[i] / total) * 100)}%)`);
+  return slices + legend(names, cx + r + 60, cy - (names.length * 22) / 2);
+};
+
+const renderAxes = (spec: ChartSpec, top: number) => {
+  const left = 70;
+  const right = spec.series.length > 1 ? 170 : 20;
+  const bottom = spec.xLabel ? 70 : 50;
+  const plotW = WIDTH - left - right;
+  const plotH = HEIGHT - top - bottom;
+
+  const all = spec.series.flatMap(s => s.values);
+  const max = Math.max(0, ...all);
+  const min = Math.min(0, ...all);
+  const step = niceStep(max - min || 1, 5);
+  const yTop = Math.ceil(max / step) * step || step;
+  const yBottom = Math.floor(min / step) * step;
+  const y = (v: number) => top + (plotH * (yTop - v)) / (yTop - yBottom);
+  const band = plotW / spec.labels.length;
+  const center = (i: number) => left + band * (i + 0.5);
+
+  let svg = '';
+  for (let v = yBottom; v <= yTop + step / 2; v += step) {
+    svg += `<line x1="${left}" x2="${left + plotW}" y1="${y(v)}" y2="${y(v)}" stroke="${v === 0 ? '#a8a29e' : '#e7e5e4'}"/>`;
+    svg += text(left - 10, y(v) + 5, formatValue(v), 'text-anchor="end"');
+  }
+  spec.labels.forEach((label, i) => {
+    svg += text(center(i), top + plotH + 24, truncate(label, Math.max(4, Math.floor(band / 8))), 'text-anchor="middle"');
+  });
+
+  if (spec.kind === 'bar') {
+    const groupW = band * 0.7;
+    const barW = groupW / spec.series.length;
+    spec.series.forEach((series, j) => {
+      series.values.forEach((value, i) => {
+        const x = center(i) - groupW / 2 + j * barW;
+        const y0 = y(Math.max(0, value));
+        svg += `<rect x="${x}" y="${y0}" width="${Math.max(1, barW - 2)}" height="${Math.abs(y(value) - y(0))}" rx="3" fill="${COLORS[j % COLORS.length]}"><title>${escapeXml(`${series.name || spec.labels[i]}: ${formatValue(value)}`)}</title></rect>`;
+      });
+    });
+  } else {
+    spec.series.forEach((series, j) => {
+      const color = COLORS[j % COLORS.length];
+      const points = series.values.map((value, i) => `${center(i)},${y(value)}`).join(' ');
+      svg += `<polyline points="${points}" fill="none" stroke="${color}" stroke-width="3" stroke-linejoin="round"/>`;
+      svg += series.values.map((value, i) =>
+        `<circle cx="${center(i)}" cy="${y(value)}" r="4" fill="${color}"><title>${escapeXml(`${spec.labels[i]}: ${formatValue(value)}`)}</title></circle>`
+      ).join('');
+    });
+  }
+
+  if (spec.xLabel) svg += text(left + plotW / 2, HEIGHT - 16, spec.xLabel, 'text-anchor="middle" font-weight="600"');
+  if (spec.yLabel) svg += text(18, top + plotH / 2, spec.yLabel, `text-anchor="middle" font-weight="600" transform="rotate(-90 18 ${top + plotH / 2})"`);
+  if (spec.series.length > 1) svg += legend(spec.series.map(s => s.name), WIDTH - right + 20, top);
+  return svg;
+};
+
+/** A self-contained SVG document for the chart, used both on screen and in exports. */
+export const renderChartSvg = (spec: ChartSpec): string => {
+  const top = spec.title ? 50 : 20;
+  const title = spec.title
+    ? `<text x="${WIDTH / 2}" y="32" font-size="18" font-weight="600" fill="#1c1917" text-anchor="middle" font-family="system-ui, sans-serif">${escapeXml(spec.title)}</text>`
+    : '';
+  const body = spec.kind === 'pie' ? renderPie(spec, top) : renderAxes(spec, top);
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="100%" role="img"><rect width="${WIDTH}" height="${HEIGHT}" fill="#ffffff"/>${title}${body}</svg>`;
+};
+
+// --- Mermaid ---
+
+type MermaidApi = typeof import('mermaid').default;
+
+let mermaidLoader: Promise<MermaidApi> | null = null;
+let diagramCounter = 0;
+
+// Mermaid is large, so it is only fetched once a lecture actually contains a diagram
+const loadMermaid = () => {
+  if (!mermaidLoader) {
+    mermaidLoader = import('mermaid')
+      .then(module => {
+        module.default.initialize({ startOnLoad: false, theme: 'neutral', securityLevel: 'strict' });
+        return module.default;
+      })
+      .catch(error => {
+        mermaidLoader = null; // Let the next diagram try again, e.g. after coming back online
+        throw error;
+      });
+  }
+  return mermaidLoader;
+};
+
+/** Resolves when `source` is valid Mermaid; rejects with the parser's message otherwise. */
+export const parseMermaid = async (source: string): Promise<void> => {
+  const mermaid = await loadMermaid();
+  await mermaid.parse(source);
+};
+
+/** Renders Mermaid source to an SVG string; rejects with the parser's message on invalid syntax. */
+export const renderMermaid = async (source: string): Promise<string> => {
+  // Parsing first keeps mermaid from leaving an error graphic in the page
+  await parseMermaid(source);
+  const mermaid = await loadMermaid();
+  const { svg } = await mermaid.render(`mermaid-diagram-${++diagramCounter}`, source);
+  return svg;
+};
@@ -0,0 +1,150 @@
+import { ResponseValidationError } from "./validation";
+
+// --- Service Errors ---
+// Every failure from an AI backend reaches the UI as a ServiceError whose kind says
+// what went wrong, so the UI can say what to do next instead of "please try again".
+
+export type ServiceErrorKind =
+  | 'rate-limit' // Quota used up or too many requests; waiting helps
+  | 'invalid-key' // Missing, wrong or unauthorised API key
+  | 'safety' // The model refused the content
+  | 'payload-too-large' // Uploaded files exceed what one request can carry
+  | 'network' // Offline, timed out or the service is temporarily down
+  | 'malformed-output' // The reply stayed unusable after repair attempts
+  | 'unknown';
+
+export class ServiceError extends Error {
+  constructor(readonly kind: ServiceErrorKind, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'ServiceError';
+  }
+
+  /** Worth retrying as is, after a pause. */
+  get isTransient() {
+    return this.kind === 'rate-limit' || this.kind === 'network';
+  }
+}
+
+export const abortError = () => new DOMException("The operation was aborted.", 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw abortError();
+};
+
+/** Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts. */
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  throwIfAborted(signal);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  // The signal may outlive many waits, so the listener goes when the wait ends either way
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// --- Classification ---
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown; code?: unknown } | null)?.status ?? (error as { code?: unknown } | null)?.code;
+  return typeof status === 'number' ? status : undefined;
+};
+
+const messageOf = (error: unknown) => (error instanceof Error ? error.message : String(error ?? ''));
+
+/**
+ * Sorts an SDK, fetch or validation error into a ServiceError. The Gemini SDK reports
+ * HTTP failures as errors carrying the status code and the API's status name.
+ */
+export const toServiceError = (error: unknown): ServiceError => {
+  if (error instanceof ServiceError) return error;
+  if (error instanceof ResponseValidationError) {
+    return new ServiceError('malformed-output', "The AI returned an answer we couldn't use, even after asking it to fix it.", error);
+  }
+  const status = statusOf(error);
+  const message = messageOf(error);
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit|too many requests/i.test(message)) {
+    return new ServiceError('rate-limit', "The AI service is receiving too many requests or your quota is used up.", error);
+  }
+  if (status === 401 || status === 403 || /API[_ ]KEY[_ ]INVALID|API key not valid|PERMISSION_DENIED|UNAUTHENTICATED|api key/i.test(message)) {
+    return new ServiceError('invalid-key', "The Gemini API key is missing or not valid.", error);
+  }
+  if (status === 413 || /payload size|too large|request entity|exceeds the maximum|input token count/i.test(message)) {
+    return new ServiceError('payload-too-large', "The uploaded files are too large to send in one request.", error);
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|blocked/i.test(message)) {
+    return new ServiceError('safety', "The AI declined to work with this content.", error);
+  }
+  if (
+    (status !== undefined && status >= 500) ||
+    error instanceof TypeError ||
+    /UNAVAILABLE|DEADLINE_EXCEEDED|overloaded|Failed to fetch|NetworkError|network|timed? ?out/i.test(message)
+  ) {
+    return new ServiceError('network', "Couldn't reach the AI service.", error);
+  }
+  return new ServiceError('unknown', message || "Something went wrong.", error);
+};
+
+// --- Backoff ---
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  maxRetries?: number;
+  baseDelayMs?: number; // First pause; doubles on each retry
+  canRetry?: () => boolean; // Asked before each retry, e.g. to stop once part of a stream has been shown
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+
+/**
+ * Runs `task`, retrying rate limits and network failures with exponential backoff and
+ * jitter. Other failures, and the last one, reject as a ServiceError; cancellation
+ * rejects with the AbortError untouched.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { signal, maxRetries = DEFAULT_MAX_RETRIES, baseDelayMs = DEFAULT_BASE_DELAY_MS, canRetry = () => true } = options;
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await task();
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) throw isAbortError(error) ? error : abortError();
+      const serviceError = toServiceError(error);
+      if (!serviceError.isTransient || attempt >= maxRetries || !canRetry()) throw serviceError;
+      console.warn(`Retrying after ${serviceError.kind} error (attempt ${attempt + 1} of ${maxRetries})`, error);
+      await wait(baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs / 2, signal);
+    }
+  }
+};
+
+// --- User-Facing Text ---
+
+export interface ErrorAdvice {
+  title: string;
+  message: string; // What happened and what to do next
+}
+
+const ADVICE: Record<ServiceErrorKind, { headline: string; nextStep: string }> = {
+  'rate-limit': { headline: "The AI is busy right now", nextStep: "Wait a minute and try again. If it keeps happening, check your Gemini API quota." },
+  'invalid-key': { headline: "The API key isn't working", nextStep: "Set a valid GEMINI_API_KEY in .env.local and restart the app." },
+  'safety': { headline: "The AI declined this content", nextStep: "Try different pages or a different chapter." },
+  'payload-too-large': { headline: "These files are too large", nextStep: "Select fewer pages, or split the PDF and upload one part." },
+  'network': { headline: "Couldn't reach the AI service", nextStep: "Check your internet connection and try again." },
+  'malformed-output': { headline: "The AI's answer came back garbled", nextStep: "Try again; a second attempt usually works." },
+  'unknown': { headline: "Something went wrong", nextStep: "Please try again." },
+};
+
+/** What to tell the student, with `action` (e.g. "generate the lecture") naming what failed. */
+export const adviceFor = (error: unknown, action?: string): ErrorAdvice => {
+  const { headline, nextStep } = ADVICE[toServiceError(error).kind];
+  return action
+    ? { title: `Couldn't ${action}`, message: `${headline}. ${nextStep}` }
+    : { title: headline, message: nextStep };
+};
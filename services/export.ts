@@ -0,0 +1,298 @@
+import React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { LectureContent, QuizQuestion, LiveTranscript } from "../types";
+import { formatCorrectAnswer, initialAnswers, optionLetter } from "./quiz";
+import { CitedFile, formatCitation } from "./citations";
+import { renderChartSvg, renderMermaid, visualTypeOf } from "./diagrams";
+import MarkdownText from "../components/MarkdownText";
+import katexStyles from "katex/dist/katex.min.css?inline";
+import highlightStyles from "highlight.js/styles/github-dark.min.css?inline";
+
+export interface ExportOptions {
+  includeQuiz: boolean;
+}
+
+export interface ExportSource {
+  lecture: LectureContent;
+  generatedImages: Record<number, string>;
+  quiz: QuizQuestion[];
+  transcripts?: LiveTranscript[];
+  sourceFiles?: CitedFile[]; // Names the files that section citations point to
+}
+
+// The choices printed under a question; ordering items appear scrambled, as in the app
+const printedChoices = (question: QuizQuestion): string[] => {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'multi-select':
+      return question.options;
+    case 'true-false':
+      return ["True", "False"];
+    case 'ordering': {
+      const answer = initialAnswers([question])[0];
+      return answer?.type === 'ordering' ? answer.order.map(i => question.items[i]) : question.items;
+    }
+    default:
+      return [];
+  }
+};
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'lecture';
+
+const escapeHtml = (text: string) =>
+  text.replace(/[<>&"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' }[c]!));
+
+// Same Markdown and math rendering as on screen
+const markdownHtml = (text: string, inline = false) =>
+  renderToStaticMarkup(React.createElement(MarkdownText, { text, inline }));
+
+// Generated visuals are usually data URLs already; anything remote is fetched and inlined.
+const toDataUrl = async (url: string): Promise<string | null> => {
+  if (url.startsWith('data:')) return url;
+  try {
+    const blob = await (await fetch(url)).blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (e) {
+    console.warn("Could not inline", url, e);
+    return null;
+  }
+};
+
+const inlineAllImages = async (images: Record<number, string>) => {
+  const entries = await Promise.all(
+    Object.entries(images).map(async ([idx, url]) => [Number(idx), await toDataUrl(url)] as const)
+  );
+  const inlined: Record<number, string> = {};
+  entries.forEach(([idx, url]) => { if (url) inlined[idx] = url; });
+  return inlined;
+};
+
+// Text diagrams are exported as SVG markup; a Mermaid diagram that fails to render is left out
+const renderAllDiagrams = async (lecture: LectureContent) => {
+  const entries = await Promise.all(lecture.sections.map(async (section, idx) => {
+    if (visualTypeOf(section) === 'chart' && section.chart) return [idx, renderChartSvg(section.chart)] as const;
+    if (visualTypeOf(section) === 'mermaid' && section.mermaid) {
+      try {
+        return [idx, await renderMermaid(section.mermaid)] as const;
+      } catch (e) {
+        console.warn("Could not render diagram for export", e);
+      }
+    }
+    return null;
+  }));
+  const diagrams: Record<number, string> = {};
+  entries.forEach(entry => { if (entry) diagrams[entry[0]] = entry[1]; });
+  return diagrams;
+};
+
+const svgDataUrl = (svg: string) => `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+
+// --- Markdown ---
+
+export const lectureToMarkdown = async (source: ExportSource, options: ExportOptions): Promise<string> => {
+  const { lecture, quiz } = source;
+  const images = await inlineAllImages(source.generatedImages);
+  const lines: string[] = [`# ${lecture.title}`, '', `> ${lecture.summary}`, ''];
+
+  lecture.sections.forEach((section, idx) => {
+    lines.push(`## ${idx + 1}. ${section.heading}`, '', section.content, '');
+    section.citations?.forEach(c => lines.push(`> _${formatCitation(c, source.sourceFiles ?? [])}:_ "${c.quote}"`, ''));
+    const alt = section.visualPrompt.replace(/[\[\]]/g, '');
+    // Mermaid stays as source, which GitHub and most Markdown editors render themselves
+    if (visualTypeOf(section) === 'mermaid' && section.mermaid) {
+      lines.push('```mermaid', section.mermaid, '```', '');
+    } else if (visualTypeOf(section) === 'chart' && section.chart) {
+      lines.push(`![${alt}](${svgDataUrl(renderChartSvg(section.chart))})`, '');
+    } else if (images[idx]) {
+      lines.push(`![${alt}](${images[idx]})`, '');
+    }
+  });
+
+  if (options.includeQuiz && quiz.length > 0) {
+    lines.push('---', '', '## Quiz', '');
+    quiz.forEach((q, idx) => {
+      lines.push(`**${idx + 1}. ${q.question}**`, '');
+      printedChoices(q).forEach((opt, optIdx) => lines.push(`- ${optionLetter(optIdx)}. ${opt}`));
+      if (q.type === 'fill-blank' || q.type === 'short-answer') lines.push('_Answer:_ ______________________');
+      lines.push('');
+    });
+    lines.push('### Answer Key', '');
+    quiz.forEach((q, idx) => {
+      lines.push(`${idx + 1}. ${formatCorrectAnswer(q)}`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+// --- HTML ---
+
+// Math and code need the same stylesheets the app uses, bundled so the export works offline
+
+let mathStyles: Promise<string> | null = null;
+
+// KaTeX's fonts are embedded too; each keeps only its WOFF2 source, which every current browser reads
+const embeddedMathStyles = () => mathStyles ??= (async () => {
+  const css = katexStyles.replace(/,\s*url\([^)]*\)\s*format\(["']?(woff|truetype)["']?\)/g, '');
+  const urls = Array.from(new Set(Array.from(css.matchAll(/url\(["']?([^)"']+)["']?\)/g), m => m[1]))).filter(u => !u.startsWith('data:'));
+  const embedded = await Promise.all(urls.map(async url => [url, await toDataUrl(url)] as const));
+  return embedded.reduce((result, [url, data]) => (data ? result.split(url).join(data) : result), css);
+})();
+
+const HTML_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1c1917; max-width: 760px; margin: 40px auto; padding: 0 24px; line-height: 1.6; }
+  h1 { font-size: 2.4em; margin-bottom: 0.2em; }
+  .summary { font-size: 1.15em; color: #57534e; border-left: 4px solid #6366f1; padding-left: 16px; }
+  h2 { margin-top: 2em; }
+  figure { margin: 1.5em 0; }
+  figure img { width: 100%; border-radius: 12px; border: 1px solid #e7e5e4; }
+  figure.diagram svg { width: 100%; height: auto; }
+  figure pre { white-space: pre-wrap; font-size: 0.85em; background: #fafaf9; border: 1px solid #e7e5e4; border-radius: 12px; padding: 12px; }
+  figcaption { font-size: 0.85em; color: #78716c; margin-top: 0.4em; }
+  .quiz ol.options { list-style: upper-alpha; }
+  .answer-key li { margin-bottom: 0.3em; }
+  pre { border-radius: 12px; overflow-x: auto; }
+  .sources { font-size: 0.85em; color: #78716c; padding-left: 1.2em; }
+  @media print {
+    body { margin: 0; max-width: none; font-size: 11pt; }
+    section { break-inside: avoid-page; }
+    figure { break-inside: avoid; }
+    .quiz, .answer-key { break-before: page; }
+  }
+`;
+
+const renderHtmlBody = (
+  source: ExportSource,
+  images: Record<number, string>,
+  diagrams: Record<number, string>,
+  options: ExportOptions
+) => {
+  const { lecture, quiz } = source;
+  let body = `<h1>${escapeHtml(lecture.title)}</h1><p class="summary">${escapeHtml(lecture.summary)}</p>`;
+
+  lecture.sections.forEach((section, idx) => {
+    body += `<section><h2>${idx + 1}. ${escapeHtml(section.heading)}</h2>${markdownHtml(section.content)}`;
+    if (section.citations?.length) {
+      body += `<ul class="sources">${section.citations.map(c =>
+        `<li><em>${escapeHtml(formatCitation(c, source.sourceFiles ?? []))}:</em> &ldquo;${escapeHtml(c.quote)}&rdquo;</li>`
+      ).join('')}</ul>`;
+    }
+    if (visualTypeOf(section) !== 'image') {
+      const figure = diagrams[idx] ?? `<pre>${escapeHtml(section.mermaid ?? '')}</pre>`;
+      body += `<figure class="diagram">${figure}<figcaption>${escapeHtml(section.visualPrompt)}</figcaption></figure>`;
+    } else if (images[idx]) {
+      body += `<figure><img src="${images[idx]}" alt="${escapeHtml(section.visualPrompt)}"/><figcaption>${escapeHtml(section.visualPrompt)}</figcaption></figure>`;
+    }
+    body += `</section>`;
+  });
+
+  if (options.includeQuiz && quiz.length > 0) {
+    body += `<div class="quiz"><h2>Quiz</h2>`;
+    quiz.forEach((q, idx) => {
+      body += `<p><strong>${idx + 1}. ${markdownHtml(q.question, true)}</strong></p>`;
+      const choices = printedChoices(q);
+      if (choices.length > 0) {
+        body += `<ol class="options">${choices.map(opt => `<li>${markdownHtml(opt, true)}</li>`).join('')}</ol>`;
+      } else {
+        body += `<p class="blank">Answer: ______________________________</p>`;
+      }
+    });
+    body += `</div><div class="answer-key"><h2>Answer Key</h2><ol>`;
+    body += quiz.map(q => `<li>${markdownHtml(formatCorrectAnswer(q), true)}</li>`).join('');
+    body += `</ol></div>`;
+  }
+
+  return body;
+};
+
+/** A single self-contained document: styles and math fonts inline, images embedded as data URLs. */
+export const lectureToHtml = async (source: ExportSource, options: ExportOptions): Promise<string> => {
+  const [images, diagrams] = await Promise.all([inlineAllImages(source.generatedImages), renderAllDiagrams(source.lecture)]);
+  const body = renderHtmlBody(source, images, diagrams, options);
+  // The math fonts are the bulk of the file, so they're only added when the lecture has math
+  const math = body.includes('class="katex') ? await embeddedMathStyles() : '';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(source.lecture.title)}</title>
+<style>${math}</style>
+<style>${highlightStyles}</style>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+};
+
+// --- Print / PDF ---
+
+/**
+ * Opens the print-optimized layout in a new window and triggers the browser's
+ * print dialog, where students can choose "Save as PDF".
+ */
+export const printLecture = async (source: ExportSource, options: ExportOptions): Promise<void> => {
+  // Browsers only allow pop-ups opened during the click, so the window is opened before the document is built
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error("Pop-up blocked. Allow pop-ups to print this lecture.");
+  }
+  let html: string;
+  try {
+    html = await lectureToHtml(source, options);
+  } catch (e) {
+    printWindow.close();
+    throw e;
+  }
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+
+  // Wait for embedded images to decode so they appear on the printed page
+  const pending = Array.from(printWindow.document.images)
+    .filter(img => !img.complete)
+    .map(img => new Promise(resolve => { img.onload = img.onerror = resolve; }));
+  await Promise.all(pending);
+  printWindow.focus();
+  printWindow.print();
+};
+
+// --- Downloads ---
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportFilename = (lecture: LectureContent, extension: string) => `${slugify(lecture.title)}.${extension}`;
+
+// --- Live Professor Transcripts ---
+
+export const transcriptToMarkdown = (transcript: LiveTranscript, topic: string): string => {
+  const lines = [
+    `# Conversation with Professor AI`,
+    '',
+    `_Topic: ${topic}_  `,
+    `_${new Date(transcript.startedAt).toLocaleString()}_`,
+    '',
+  ];
+  transcript.turns.forEach(turn => {
+    lines.push(`**${turn.role === 'student' ? 'Student' : 'Professor'}:** ${turn.text.trim()}`, '');
+  });
+  return lines.join('\n');
+};
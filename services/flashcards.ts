@@ -0,0 +1,76 @@
+import { Flashcard, FlashcardDraft, QuizQuestion, QuestionGrade } from "../types";
+import { STORES, promisifyRequest, withStore } from "./db";
+import { initialSchedule } from "./srs";
+import { formatCorrectAnswer } from "./quiz";
+
+// --- Deck Storage ---
+
+// Stable ids keep the same card from being added twice
+const cardId = (lectureId: string, source: Flashcard['source'], front: string) => {
+  let hash = 0;
+  for (let i = 0; i < front.length; i++) hash = (hash * 31 + front.charCodeAt(i)) | 0;
+  return `${lectureId}:${source}:${(hash >>> 0).toString(36)}`;
+};
+
+const toCard = (lectureId: string, source: Flashcard['source'], draft: FlashcardDraft, now: number): Flashcard => ({
+  ...draft,
+  id: cardId(lectureId, source, draft.front),
+  lectureId,
+  source,
+  createdAt: now,
+  ...initialSchedule(now),
+});
+
+/** Adds cards to the deck, leaving any card that already exists (and its schedule) untouched. */
+export const addFlashcards = (lectureId: string, source: Flashcard['source'], drafts: FlashcardDraft[]): Promise<number> =>
+  withStore(STORES.flashcards, 'readwrite', async (store) => {
+    const now = Date.now();
+    let added = 0;
+    for (const draft of drafts) {
+      const card = toCard(lectureId, source, draft, now);
+      const existing = await promisifyRequest(store.getKey(card.id));
+      if (existing === undefined) {
+        await promisifyRequest(store.add(card));
+        added++;
+      }
+    }
+    return added;
+  });
+
+export const updateFlashcard = (card: Flashcard): Promise<void> =>
+  withStore(STORES.flashcards, 'readwrite', async (store) => {
+    await promisifyRequest(store.put(card));
+  });
+
+export const listDueFlashcards = (now: number = Date.now()): Promise<Flashcard[]> =>
+  withStore(STORES.flashcards, 'readonly', (store) =>
+    promisifyRequest<Flashcard[]>(store.index('dueAt').getAll(IDBKeyRange.upperBound(now)))
+  );
+
+export const countFlashcards = (): Promise<{ total: number; due: number }> =>
+  withStore(STORES.flashcards, 'readonly', async (store) => {
+    const total = await promisifyRequest(store.count());
+    const due = await promisifyRequest(store.index('dueAt').count(IDBKeyRange.upperBound(Date.now())));
+    return { total, due };
+  });
+
+export const nextDueAt = (): Promise<number | null> =>
+  withStore(STORES.flashcards, 'readonly', async (store) => {
+    const cursor = await promisifyRequest(store.index('dueAt').openCursor());
+    return cursor ? (cursor.value as Flashcard).dueAt : null;
+  });
+
+// --- Quiz Mistakes ---
+
+/** Turns the questions a student got wrong into cards: the question on the front, the answer and why on the back. */
+export const flashcardsFromMistakes = (
+  quiz: QuizQuestion[],
+  grades: Record<number, QuestionGrade>
+): FlashcardDraft[] =>
+  quiz
+    .filter((_, idx) => grades[idx] && grades[idx].score < 1)
+    .map(q => ({
+      front: q.question,
+      back: q.explanation ? `${formatCorrectAnswer(q)}\n\n${q.explanation}` : formatCorrectAnswer(q),
+      sectionIndex: q.sectionIndex,
+    }));
@@ -1,228 +1,115 @@
-import { GoogleGenAI, Type, FunctionDeclaration, LiveServerMessage, Modality } from "@google/genai";
-import { LectureContent, QuizQuestion, UploadedFile } from "../types";
+import { LectureContent, QuizQuestion, UploadedFile, QuizConfig, ShortAnswerQuestion, QuestionGrade, FlashcardDraft, QuizContext, TranscriptTurn, LectureSettings, Syllabus } from "../types";
+import { getAIProvider, LectureStreamOptions, SpeechAudio, ChatStreamOptions, TranslatedLecture, ImageOptions, RequestOptions } from "./aiProvider";
+import { createAudioContext, decodeSpeechAudio } from "./audio";
+import { toSpokenText } from "./spokenText";
+import { isAbortError, toServiceError, withRetry } from "./errors";
 
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
+// Thin facade over the active AI provider (see aiProvider.ts). The UI imports
+// from here and never talks to an SDK directly. Every call retries rate limits and
+// network failures with backoff and rejects with a ServiceError (see errors.ts),
+// or with an AbortError once its signal is aborted.
 
 // --- Chapter Extraction ---
 
-export const extractChapters = async (files: UploadedFile[]): Promise<string[]> => {
-  const model = "gemini-3-pro-preview"; // High context window for full books
+export const extractChapters = (files: UploadedFile[], options: RequestOptions = {}): Promise<string[]> =>
+  withRetry(() => getAIProvider().extractChapters(files, options), options);
 
-  const fileParts = files.map(f => ({
-    inlineData: {
-      mimeType: f.mimeType,
-      data: f.data
-    }
-  }));
-
-  const prompt = `
-    Analyze the provided document(s). 
-    Identify the Table of Contents or the main chapter structure. 
-    List the titles of all the chapters or main sections found.
-    Return the result as a JSON object with a single property 'chapters' containing an array of strings.
-    If no clear chapters are found, list the main topic headings.
-  `;
-
-  const response = await ai.models.generateContent({
-    model,
-    contents: {
-      role: 'user',
-      parts: [...fileParts, { text: prompt }]
-    },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          chapters: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING }
-          }
-        },
-        required: ["chapters"]
-      }
-    }
-  });
+// --- Course Planning ---
 
-  const text = response.text;
-  if (!text) return [];
-  const result = JSON.parse(text);
-  return result.chapters || [];
-};
+export const generateSyllabus = (
+  files: UploadedFile[],
+  chapters: string[],
+  language: string,
+  teachingLanguage: string,
+  settings: LectureSettings,
+  options: RequestOptions = {}
+): Promise<Syllabus> => withRetry(() => getAIProvider().generateSyllabus(files, chapters, language, teachingLanguage, settings, options), options);
 
 // --- Lecture Generation ---
 
-export const generateLecture = async (
+export const generateLecture = (
   files: UploadedFile[],
   language: string,
-  focusTopic?: string
+  teachingLanguage: string,
+  settings: LectureSettings,
+  focusTopic?: string,
+  options: LectureStreamOptions = {}
 ): Promise<LectureContent> => {
-  const model = "gemini-3-pro-preview";
-
-  const fileParts = files.map(f => ({
-    inlineData: {
-      mimeType: f.mimeType,
-      data: f.data
-    }
-  }));
-
-  let prompt = `
-    You are a distinguished university professor. 
-    Analyze the provided book pages/PDF (Language: ${language}). 
-    Create a comprehensive lecture plan in ENGLISH to teach this material to a student.
-  `;
-
-  if (focusTopic) {
-    prompt += `
-    CRITICAL INSTRUCTION: The student wants to study a specific chapter: "${focusTopic}".
-    Ignore other chapters. Focus the entire lecture, summary, and visual aids ONLY on explaining "${focusTopic}" in depth.
-    `;
-  } else {
-    prompt += `
-    Cover the main concepts found in the uploaded content.
-    `;
-  }
-
-  prompt += `
-    Structure the response as a JSON object with a title, a brief summary, and a list of sections.
-    For each section, provide a heading, a detailed explanation (content), and a specific prompt to generate a visual aid (diagram, chart, or illustration) that explains the concept.
-    
-    The visual prompt should be descriptive, e.g., "A detailed biological diagram of a plant cell labeled with parts".
-  `;
-
-  const response = await ai.models.generateContent({
-    model,
-    contents: {
-      role: 'user',
-      parts: [...fileParts, { text: prompt }]
-    },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING },
-          summary: { type: Type.STRING },
-          sections: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                heading: { type: Type.STRING },
-                content: { type: Type.STRING },
-                visualPrompt: { type: Type.STRING }
-              },
-              required: ["heading", "content", "visualPrompt"]
-            }
-          }
-        },
-        required: ["title", "summary", "sections"]
-      }
-    }
-  });
-
-  const text = response.text;
-  if (!text) throw new Error("No response from Gemini");
-  return JSON.parse(text) as LectureContent;
+  // A retry streams the lecture again from the start; keep the sections already shown until it catches up
+  let shownSections = 0;
+  const onProgress: LectureStreamOptions['onProgress'] = partial => {
+    if (partial.sections.length < shownSections) return;
+    shownSections = partial.sections.length;
+    options.onProgress?.(partial);
+  };
+  return withRetry(() => getAIProvider().generateLecture(files, language, teachingLanguage, settings, focusTopic, { ...options, onProgress }), options);
 };
 
+export const translateLecture = (lectureContent: LectureContent, quiz: QuizQuestion[], language: string, options: RequestOptions = {}): Promise<TranslatedLecture> =>
+  withRetry(() => getAIProvider().translateLecture(lectureContent, quiz, language, options), options);
+
 // --- Image Generation ---
 
-export const generateLectureImage = async (prompt: string): Promise<string> => {
-  // Using gemini-3-pro-image-preview for high quality educational visuals
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [{ text: prompt }]
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: "16:9",
-          imageSize: "1K"
-        }
-      }
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    return "https://picsum.photos/800/450?text=Image+Generation+Failed";
-  } catch (error) {
-    console.error("Image generation failed", error);
-    return "https://picsum.photos/800/450?text=Image+Unavailable";
-  }
-};
+// Most callers should go through the queue in imageQueue.ts, which caches and limits concurrency.
+// A lecture's images are drawn in bulk and hit rate limits first, so they back off longer.
+export const generateLectureImage = (prompt: string, options: ImageOptions = {}): Promise<string> =>
+  withRetry(() => getAIProvider().generateLectureImage(prompt, options), { signal: options.signal, maxRetries: 4, baseDelayMs: 2000 });
 
 // --- Quiz Generation ---
 
-export const generateQuiz = async (lectureContent: LectureContent): Promise<QuizQuestion[]> => {
-  const model = "gemini-3-pro-preview";
-  
-  const prompt = `
-    Based on the following lecture content, generate 5 multiple-choice quiz questions to test the student's understanding.
-    
-    Lecture Title: ${lectureContent.title}
-    Lecture Summary: ${lectureContent.summary}
-    Sections: ${lectureContent.sections.map(s => s.heading + ": " + s.content).join('\n')}
-  `;
-
-  const response = await ai.models.generateContent({
-    model,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            question: { type: Type.STRING },
-            options: { type: Type.ARRAY, items: { type: Type.STRING } },
-            correctAnswerIndex: { type: Type.INTEGER, description: "0-based index of the correct option" }
-          },
-          required: ["question", "options", "correctAnswerIndex"]
-        }
-      }
-    }
-  });
+export const generateQuiz = (lectureContent: LectureContent, config: QuizConfig, context?: QuizContext, options: RequestOptions = {}): Promise<QuizQuestion[]> =>
+  withRetry(() => getAIProvider().generateQuiz(lectureContent, config, context, options), options);
+
+export const gradeShortAnswer = (question: ShortAnswerQuestion, answer: string, options: RequestOptions = {}): Promise<QuestionGrade> =>
+  withRetry(() => getAIProvider().gradeShortAnswer(question, answer, options), options);
+
+// --- Flashcards ---
 
-  const text = response.text;
-  if (!text) return [];
-  return JSON.parse(text) as QuizQuestion[];
+export const generateFlashcards = (lectureContent: LectureContent, language?: string, options: RequestOptions = {}): Promise<FlashcardDraft[]> =>
+  withRetry(() => getAIProvider().generateFlashcards(lectureContent, language, options), options);
+
+// --- Professor Chat ---
+
+export const chatWithProfessor = (
+  files: UploadedFile[],
+  systemInstruction: string,
+  history: TranscriptTurn[],
+  options: ChatStreamOptions = {}
+): Promise<string> => {
+  // Once part of the reply is on screen a retry would repeat it
+  let streamed = false;
+  const onChunk = (text: string) => {
+    streamed = true;
+    options.onChunk?.(text);
+  };
+  return withRetry(
+    () => getAIProvider().chatWithProfessor(files, systemInstruction, history, { ...options, onChunk }),
+    { ...options, canRetry: () => !streamed }
+  );
 };
 
+/** The live voice session talks to the Gemini Live API directly; other providers can only chat by text. */
+export const supportsLiveVoice = () => getAIProvider().name === 'gemini';
+
 // --- TTS (Text to Speech) ---
 
-export const playTTS = async (text: string, onEnded: () => void): Promise<() => void> => {
-  // Returns a stop function
+export const synthesizeSpeech = (text: string, language?: string, options: RequestOptions = {}): Promise<SpeechAudio | null> =>
+  withRetry(() => getAIProvider().synthesizeSpeech(text, language, options), options);
+
+/**
+ * Speaks `text` and resolves to a function that stops playback. `onEnded` runs when
+ * playback finishes, and also before the promise rejects, so callers can reset their UI.
+ */
+export const playTTS = async (text: string, onEnded: () => void, language?: string, signal?: AbortSignal): Promise<() => void> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Fenrir' }, // Deep, professor-like voice
-          },
-        },
-      },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) {
+    const audio = await synthesizeSpeech(toSpokenText(text, language), language, { signal });
+    if (!audio) {
       onEnded();
       return () => {};
     }
 
-    const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const audioData = await audioCtx.decodeAudioData(
-      Uint8Array.from(atob(base64Audio), c => c.charCodeAt(0)).buffer
-    );
+    const audioCtx = createAudioContext();
+    const audioData = await decodeSpeechAudio(audio, audioCtx);
 
     const source = audioCtx.createBufferSource();
     source.buffer = audioData;
@@ -238,8 +125,7 @@ export const playTTS = async (text: string, onEnded: () => void): Promise<() =>
     };
 
   } catch (error) {
-    console.error("TTS Error", error);
     onEnded();
-    return () => {};
+    throw isAbortError(error) ? error : toServiceError(error);
   }
-};
\ No newline at end of file
+};
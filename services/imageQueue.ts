@@ -0,0 +1,86 @@
+import { ImageAspectRatio } from "../types";
+import { ImageOptions } from "./aiProvider";
+import { generateLectureImage } from "./gemini";
+import { isAbortError, throwIfAborted } from "./errors";
+
+// --- Image Queue ---
+// A lecture asks for every section's diagram at once. The queue runs only a few
+// requests at a time and reuses results for the prompts it drew most recently. Rate
+// limits are retried with backoff by generateLectureImage while holding the slot,
+// so the whole queue slows down together.
+
+export interface ImageRequestOptions {
+  aspectRatio?: ImageAspectRatio;
+  signal?: AbortSignal;
+  force?: boolean; // Skip the cache and draw a fresh image
+}
+
+export interface ImageQueueOptions {
+  concurrency: number;
+  cacheSize: number; // Drawings kept for reuse; each is a base64 image held in memory
+}
+
+const DEFAULT_QUEUE_OPTIONS: ImageQueueOptions = { concurrency: 2, cacheSize: 24 };
+
+export const createImageQueue = (
+  generate: (prompt: string, options: ImageOptions) => Promise<string>,
+  options: Partial<ImageQueueOptions> = {}
+) => {
+  const { concurrency, cacheSize } = { ...DEFAULT_QUEUE_OPTIONS, ...options };
+  const cache = new Map<string, Promise<string>>(); // Least recently used first
+  const waiting: (() => void)[] = [];
+  let active = 0;
+
+  // A finished job hands its slot straight to the next waiting one
+  const acquire = async () => {
+    if (active < concurrency) {
+      active++;
+      return;
+    }
+    await new Promise<void>(resolve => waiting.push(resolve));
+  };
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+
+  const run = async (prompt: string, aspectRatio: ImageAspectRatio, signal?: AbortSignal) => {
+    await acquire();
+    try {
+      throwIfAborted(signal);
+      return await generate(prompt, { aspectRatio, signal });
+    } finally {
+      release();
+    }
+  };
+
+  /** Resolves to an image data URL for the prompt, drawing it only if it isn't cached. */
+  const request = (prompt: string, { aspectRatio = '16:9', signal, force = false }: ImageRequestOptions = {}): Promise<string> => {
+    const key = `${aspectRatio}\n${prompt.trim()}`;
+    const cached = cache.get(key);
+    if (cached && !force) {
+      cache.delete(key);
+      cache.set(key, cached);
+      // Another caller's cancellation shouldn't cancel this request too
+      return cached.catch(error => {
+        if (isAbortError(error) && !signal?.aborted) return request(prompt, { aspectRatio, signal });
+        throw error;
+      });
+    }
+
+    const pending = run(prompt, aspectRatio, signal);
+    cache.delete(key);
+    cache.set(key, pending);
+    while (cache.size > cacheSize) cache.delete(cache.keys().next().value!);
+    // Failed or cancelled drawings are forgotten so a retry starts over
+    pending.catch(() => {
+      if (cache.get(key) === pending) cache.delete(key);
+    });
+    return pending;
+  };
+
+  return { request };
+};
+
+export const lectureImages = createImageQueue(generateLectureImage);
@@ -0,0 +1,12 @@
+import { Language } from "../types";
+
+// --- Teaching Language ---
+// The book's language (`SavedLecture.language`) only tells the model how to read
+// the source; everything the student sees or hears is in the teaching language.
+
+export const DEFAULT_TEACHING_LANGUAGE = Language.ENGLISH;
+
+// "Auto Detect" only makes sense for reading the source
+export const TEACHING_LANGUAGES = Object.values(Language).filter(l => l !== Language.AUTO);
+
+export const isRightToLeft = (language: Language) => language === Language.ARABIC;
@@ -0,0 +1,91 @@
+import { AudienceLevel, LectureSettings, LectureStyle } from "../types";
+
+// --- Lecture Settings ---
+// Who the lecture is for, how long it runs and what it is for. The same settings
+// pitch the lecture, the quiz difficulty and the Live Professor's persona.
+
+export const AUDIENCE_LEVEL_LABELS: Record<AudienceLevel, string> = {
+  'high-school': "High school",
+  'undergraduate': "Undergraduate",
+  'graduate': "Graduate",
+  'expert': "Expert refresher",
+};
+
+export const LECTURE_STYLE_LABELS: Record<LectureStyle, string> = {
+  'overview': "Overview",
+  'deep-dive': "Deep dive",
+  'exam-cram': "Exam cram",
+};
+
+export const ALL_AUDIENCE_LEVELS = Object.keys(AUDIENCE_LEVEL_LABELS) as AudienceLevel[];
+export const ALL_LECTURE_STYLES = Object.keys(LECTURE_STYLE_LABELS) as LectureStyle[];
+
+export const MIN_SECTION_COUNT = 3;
+export const MAX_SECTION_COUNT = 12;
+
+export const DEFAULT_LECTURE_SETTINGS: LectureSettings = {
+  audience: 'undergraduate',
+  sectionCount: 5,
+  style: 'deep-dive',
+};
+
+/** Fills in settings missing from older records and clamps the section count. */
+export const normalizeLectureSettings = (settings?: Partial<LectureSettings>): LectureSettings => {
+  const merged = { ...DEFAULT_LECTURE_SETTINGS, ...settings };
+  return {
+    audience: ALL_AUDIENCE_LEVELS.includes(merged.audience) ? merged.audience : DEFAULT_LECTURE_SETTINGS.audience,
+    sectionCount: Math.min(MAX_SECTION_COUNT, Math.max(MIN_SECTION_COUNT, Math.round(merged.sectionCount) || DEFAULT_LECTURE_SETTINGS.sectionCount)),
+    style: ALL_LECTURE_STYLES.includes(merged.style) ? merged.style : DEFAULT_LECTURE_SETTINGS.style,
+  };
+};
+
+/** Short description for lists, e.g. "Undergraduate · Deep dive · 5 sections". */
+export const describeLectureSettings = (settings: LectureSettings) =>
+  `${AUDIENCE_LEVEL_LABELS[settings.audience]} · ${LECTURE_STYLE_LABELS[settings.style]} · ${settings.sectionCount} sections`;
+
+// --- Prompt Fragments ---
+
+const TEACHER_PERSONAS: Record<AudienceLevel, string> = {
+  'high-school': "an experienced high school teacher",
+  'undergraduate': "a distinguished university professor",
+  'graduate': "a professor leading a graduate seminar",
+  'expert': "a senior researcher briefing a fellow expert",
+};
+
+const AUDIENCE_GUIDANCE: Record<AudienceLevel, string> = {
+  'high-school': "The student is in high school. Use plain language, define every technical term, and build intuition with everyday examples before any formula.",
+  'undergraduate': "The student is an undergraduate. Assume introductory background in the subject, define specialised terms, and connect ideas to first principles.",
+  'graduate': "The student is a graduate student. Assume solid undergraduate background, use precise terminology, and discuss mechanisms, derivations and open questions.",
+  'expert': "The student already knows this field and wants a refresher. Skip the basics, be dense and precise, and focus on key results, edge cases and common pitfalls.",
+};
+
+const STYLE_GUIDANCE: Record<LectureStyle, string> = {
+  'overview': "Give a broad overview: the big picture, how the main ideas connect, and only the details needed to follow them.",
+  'deep-dive': "Go deep: explain each concept thoroughly, with its reasoning, worked examples and how it relates to the others.",
+  'exam-cram': "Prepare the student for an exam: key definitions, formulas and facts to memorise, typical exam questions and common mistakes, kept brief and scannable.",
+};
+
+const QUIZ_DIFFICULTY: Record<AudienceLevel, string> = {
+  'high-school': "Pitch the questions at high school level: test understanding of the core ideas and vocabulary, with no trick questions.",
+  'undergraduate': "Pitch the questions at undergraduate level: mix recall with applying the concepts to new situations.",
+  'graduate': "Pitch the questions at graduate level: favour analysis, multi-step reasoning and comparing mechanisms over recall.",
+  'expert': "Pitch the questions at expert level: test subtle distinctions, edge cases and common misconceptions.",
+};
+
+export const teacherPersona = (settings: LectureSettings) => TEACHER_PERSONAS[settings.audience];
+
+/** Audience, style and length instructions for the lecture prompt. */
+export const lectureSettingsInstruction = (settings: LectureSettings) =>
+  `${AUDIENCE_GUIDANCE[settings.audience]}
+      ${STYLE_GUIDANCE[settings.style]}
+      Write about ${settings.sectionCount} sections.`;
+
+/** Difficulty instructions for the quiz prompt; exam cram quizzes also mirror exam questions. */
+export const quizDifficultyInstruction = (settings: LectureSettings) =>
+  settings.style === 'exam-cram'
+    ? `${QUIZ_DIFFICULTY[settings.audience]} Phrase them like typical exam questions.`
+    : QUIZ_DIFFICULTY[settings.audience];
+
+/** How the Live Professor should pitch its answers. */
+export const professorAudienceInstruction = (settings: LectureSettings) =>
+  `${AUDIENCE_GUIDANCE[settings.audience]} ${STYLE_GUIDANCE[settings.style]}`;
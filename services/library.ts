@@ -0,0 +1,71 @@
+import { SavedLecture, SourceFileMeta, UploadedFile } from "../types";
+import { STORES, promisifyRequest, withStore } from "./db";
+import { AUDIENCE_LEVEL_LABELS, LECTURE_STYLE_LABELS } from "./lectureSettings";
+
+export type LectureDraft = Omit<SavedLecture, 'title' | 'createdAt' | 'updatedAt'> & { title?: string };
+
+// --- Lecture Library ---
+
+/** Names and sizes of the uploaded files, as stored with a lecture. */
+export const describeSourceFiles = (files: UploadedFile[]): SourceFileMeta[] =>
+  files.map((f, i) => ({
+    name: f.name || `Page ${i + 1}`,
+    mimeType: f.mimeType,
+    size: f.size ?? Math.round(f.data.length * 3 / 4)
+  }));
+
+/**
+ * Inserts or updates a lecture. The user-facing title and creation time of an
+ * existing record are kept, so autosaves never undo a rename from the library.
+ */
+export const saveLecture = (draft: LectureDraft): Promise<SavedLecture> =>
+  withStore(STORES.lectures, 'readwrite', async (store) => {
+    const existing = await promisifyRequest<SavedLecture | undefined>(store.get(draft.id));
+    const now = Date.now();
+    const record: SavedLecture = {
+      ...draft,
+      title: existing?.title ?? draft.title ?? draft.lecture.title,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await promisifyRequest(store.put(record));
+    return record;
+  });
+
+export const getLecture = (id: string): Promise<SavedLecture | undefined> =>
+  withStore(STORES.lectures, 'readonly', (store) => promisifyRequest<SavedLecture | undefined>(store.get(id)));
+
+export const listLectures = async (): Promise<SavedLecture[]> => {
+  const all = await withStore(STORES.lectures, 'readonly', (store) => promisifyRequest<SavedLecture[]>(store.getAll()));
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const renameLecture = (id: string, title: string): Promise<void> =>
+  withStore(STORES.lectures, 'readwrite', async (store) => {
+    const existing = await promisifyRequest<SavedLecture | undefined>(store.get(id));
+    if (!existing) return;
+    await promisifyRequest(store.put({ ...existing, title, updatedAt: Date.now() }));
+  });
+
+export const deleteLecture = (id: string): Promise<void> =>
+  withStore(STORES.lectures, 'readwrite', async (store) => {
+    await promisifyRequest(store.delete(id));
+  });
+
+/** Case-insensitive match against the title, chapter, summary, section headings and lecture settings. */
+export const matchesLectureQuery = (record: SavedLecture, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  const haystack = [
+    record.title,
+    record.chapter,
+    record.teachingLanguage ?? '',
+    record.settings ? AUDIENCE_LEVEL_LABELS[record.settings.audience] : '',
+    record.settings ? LECTURE_STYLE_LABELS[record.settings.style] : '',
+    record.lecture.title,
+    record.lecture.summary,
+    ...record.lecture.sections.map(s => s.heading),
+    ...record.sourceFiles.map(f => f.name),
+  ].join('\n').toLowerCase();
+  return haystack.includes(needle);
+};
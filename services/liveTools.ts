@@ -0,0 +1,107 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import { QuizQuestion } from "../types";
+import { normalizeQuizQuestion } from "./quiz";
+
+// --- Lecture Tools ---
+// Functions the Live Professor can call to change what the student sees.
+// LiveProfessor forwards each call to the app and sends the result back to the model.
+
+export type LectureToolCall =
+  | { name: 'show_section'; sectionIndex: number }
+  | { name: 'show_section_image'; sectionIndex: number }
+  | { name: 'ask_pop_quiz'; question: QuizQuestion }
+  | { name: 'regenerate_diagram'; sectionIndex: number; description: string };
+
+/** Carries out a tool call and returns a short status for the model to talk about. */
+export type LectureToolHandler = (call: LectureToolCall) => string | Promise<string>;
+
+const sectionIndexParam = {
+  type: Type.INTEGER,
+  description: "0-based index of the lecture section, from the section list in your instructions.",
+};
+
+export const LECTURE_TOOL_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'show_section',
+    description: "Scroll the lecture to a section and highlight it, e.g. when you start explaining it.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: { sectionIndex: sectionIndexParam },
+      required: ["sectionIndex"],
+    },
+  },
+  {
+    name: 'show_section_image',
+    description: "Open a section's diagram full screen, e.g. when the student asks to see it again.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: { sectionIndex: sectionIndexParam },
+      required: ["sectionIndex"],
+    },
+  },
+  {
+    name: 'ask_pop_quiz',
+    description: "Put a quick multiple-choice question on screen to check the student's understanding.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        question: { type: Type.STRING },
+        options: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Two to four answer options." },
+        correctOptionIndex: { type: Type.INTEGER, description: "0-based index of the correct option." },
+        explanation: { type: Type.STRING, description: "One or two sentences on why the answer is correct." },
+        sectionIndex: sectionIndexParam,
+      },
+      required: ["question", "options", "correctOptionIndex", "explanation"],
+    },
+  },
+  {
+    name: 'regenerate_diagram',
+    description: "Draw a new diagram for a section from a description, replacing the current one.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        sectionIndex: sectionIndexParam,
+        description: { type: Type.STRING, description: "Detailed description of the diagram to draw." },
+      },
+      required: ["sectionIndex", "description"],
+    },
+  },
+];
+
+/** Validates raw function-call arguments; returns null for unknown tools or unusable arguments. */
+export const parseLectureToolCall = (name: string | undefined, args: Record<string, unknown> = {}, sectionCount: number): LectureToolCall | null => {
+  const sectionIndex = typeof args.sectionIndex === 'number' && args.sectionIndex >= 0 && args.sectionIndex < sectionCount
+    ? Math.floor(args.sectionIndex)
+    : undefined;
+
+  switch (name) {
+    case 'show_section':
+    case 'show_section_image':
+      return sectionIndex === undefined ? null : { name, sectionIndex };
+    case 'ask_pop_quiz': {
+      const question = normalizeQuizQuestion({
+        type: 'multiple-choice',
+        question: typeof args.question === 'string' ? args.question : undefined,
+        options: Array.isArray(args.options) ? args.options.filter((o): o is string => typeof o === 'string') : undefined,
+        correctAnswerIndex: typeof args.correctOptionIndex === 'number' ? args.correctOptionIndex : undefined,
+        explanation: typeof args.explanation === 'string' ? args.explanation : undefined,
+        sectionIndex,
+      }, sectionCount);
+      return question ? { name, question } : null;
+    }
+    case 'regenerate_diagram': {
+      const description = typeof args.description === 'string' ? args.description.trim() : '';
+      return sectionIndex === undefined || !description ? null : { name, sectionIndex, description };
+    }
+    default:
+      return null;
+  }
+};
+
+/** Added to the professor's instructions so the model knows which sections it can point at. */
+export const lectureToolInstruction = (sectionHeadings: string[]) =>
+  `The student can see the lecture on screen. Its sections are:
+  ${sectionHeadings.map((h, i) => `[${i}] ${h}`).join('\n  ')}
+  Use your tools to show the section you are talking about, open a diagram when the student asks to see it,
+  ask a quick pop-quiz question after explaining something tricky, or redraw a diagram the student describes.
+  Tell the student what you are showing them.`;
@@ -0,0 +1,79 @@
+import { QuestionGrade, QuizAttempt, QuizFocus, QuizQuestion, SectionScore } from "../types";
+
+// --- Concept Mastery ---
+// Each lecture section is one concept. Mastery is estimated from the student's
+// quiz results on that section, with recent attempts counting most.
+
+export const MASTERY_THRESHOLD = 0.8;
+
+// Each older attempt counts this much less than the one after it
+const RECENCY_DECAY = 0.6;
+// One imaginary half-right answer, so a single correct answer doesn't read as mastery
+const PRIOR_WEIGHT = 1;
+const PRIOR_MASTERY = 0.5;
+
+export interface ConceptMastery {
+  sectionIndex: number;
+  mastery: number; // 0 to 1
+  questionCount: number; // Questions answered on this section across all attempts
+}
+
+/** Totals one attempt's grades per section; questions without a section are left out. */
+export const scoreBySection = (quiz: QuizQuestion[], grades: Record<number, QuestionGrade>): Record<number, SectionScore> => {
+  const scores: Record<number, SectionScore> = {};
+  quiz.forEach((question, idx) => {
+    if (question.sectionIndex === undefined) return;
+    const entry = scores[question.sectionIndex] ?? { score: 0, total: 0 };
+    entry.score += grades[idx]?.score ?? 0;
+    entry.total += 1;
+    scores[question.sectionIndex] = entry;
+  });
+  return scores;
+};
+
+/** Mastery of every section tested so far, in section order. */
+export const estimateMastery = (attempts: QuizAttempt[]): ConceptMastery[] => {
+  // Newest first; recency counts per section, so quizzes that skip a section don't fade what it showed
+  const tracked = attempts.filter(a => a.sectionScores).sort((a, b) => b.completedAt - a.completedAt);
+  const totals = new Map<number, { score: number; weight: number; questions: number; seen: number }>();
+  tracked.forEach(attempt => {
+    Object.entries(attempt.sectionScores!).forEach(([idx, { score, total }]) => {
+      const entry = totals.get(Number(idx)) ?? { score: 0, weight: 0, questions: 0, seen: 0 };
+      const weight = RECENCY_DECAY ** entry.seen++;
+      entry.score += score * weight;
+      entry.weight += total * weight;
+      entry.questions += total;
+      totals.set(Number(idx), entry);
+    });
+  });
+  return Array.from(totals.entries())
+    .map(([sectionIndex, t]) => ({
+      sectionIndex,
+      mastery: (t.score + PRIOR_MASTERY * PRIOR_WEIGHT) / (t.weight + PRIOR_WEIGHT),
+      questionCount: t.questions,
+    }))
+    .sort((a, b) => a.sectionIndex - b.sectionIndex);
+};
+
+export const isMastered = (mastery: ConceptMastery[]) =>
+  mastery.length > 0 && mastery.every(m => m.mastery >= MASTERY_THRESHOLD);
+
+/**
+ * The concepts a practice quiz should drill: every section below the threshold
+ * or missed in the latest quiz, weakest first, with the questions that were missed.
+ */
+export const buildQuizFocus = (
+  quiz: QuizQuestion[],
+  grades: Record<number, QuestionGrade>,
+  mastery: ConceptMastery[]
+): QuizFocus[] => {
+  const missed = new Map<number, string[]>();
+  quiz.forEach((question, idx) => {
+    if (question.sectionIndex === undefined || (grades[idx]?.score ?? 0) >= 1) return;
+    missed.set(question.sectionIndex, [...(missed.get(question.sectionIndex) ?? []), question.question]);
+  });
+  return mastery
+    .filter(m => m.mastery < MASTERY_THRESHOLD || missed.has(m.sectionIndex))
+    .sort((a, b) => a.mastery - b.mastery)
+    .map(m => ({ sectionIndex: m.sectionIndex, mastery: m.mastery, missedQuestions: missed.get(m.sectionIndex) ?? [] }));
+};
@@ -0,0 +1,42 @@
+import { LectureContent } from "../types";
+import { toSpokenText } from "./spokenText";
+
+// --- Narration Chunks ---
+
+export interface NarrationChunk {
+  sectionIndex: number | null; // null for the title and summary
+  text: string;
+}
+
+// Keeps each TTS request short enough to start quickly and stay within model limits
+const MAX_CHUNK_CHARS = 1200;
+
+const splitLongText = (text: string): string[] => {
+  if (text.length <= MAX_CHUNK_CHARS) return [text];
+  const paragraphs = text.split(/\n\s*\n/).flatMap(p =>
+    p.length <= MAX_CHUNK_CHARS ? [p] : (p.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [p])
+  );
+  const chunks: string[] = [];
+  let current = '';
+  paragraphs.forEach(piece => {
+    if (current && (current + ' ' + piece).length > MAX_CHUNK_CHARS) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    current += ' ' + piece;
+  });
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+};
+
+/** Splits a lecture written in `language` into narration requests: the introduction, then each section (long ones by paragraph). */
+export const buildNarrationChunks = (lecture: LectureContent, language: string): NarrationChunk[] => [
+  // No fixed English phrasing here: the lecture may be written in any language
+  { sectionIndex: null, text: toSpokenText(`${lecture.title}. ${lecture.summary}`, language) },
+  ...lecture.sections.flatMap((section, idx) =>
+    splitLongText(toSpokenText(section.content, language)).map((text, part) => ({
+      sectionIndex: idx,
+      text: part === 0 ? `${section.heading}. ${text}` : text,
+    }))
+  ),
+];
@@ -0,0 +1,294 @@
+// --- Page Scanning ---
+// Turns a camera frame of a book page into a flat, evenly lit scan: find the page,
+// undo the perspective, then even out shadows and stretch the contrast. Everything
+// runs on plain pixel buffers in the browser; nothing leaves the device.
+
+/** Same layout as the DOM's ImageData (RGBA, row by row), so either can be passed in. */
+export interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Page corners, clockwise from the top left. */
+export type Quad = [Point, Point, Point, Point];
+
+const luminance = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+const grayscale = ({ data, width, height }: Pixels) => {
+  const gray = new Float32Array(width * height);
+  for (let p = 0; p < gray.length; p++) gray[p] = luminance(data, p * 4);
+  return gray;
+};
+
+// Box blur through a summed-area table; smooths away print so the page reads as one bright shape
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number) => {
+  const sums = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += values[y * width + x];
+      sums[(y + 1) * (width + 1) + x + 1] = sums[y * (width + 1) + x + 1] + row;
+    }
+  }
+  const out = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const total = sums[y1 * (width + 1) + x1] - sums[y0 * (width + 1) + x1] - sums[y1 * (width + 1) + x0] + sums[y0 * (width + 1) + x0];
+      out[y * width + x] = total / ((x1 - x0) * (y1 - y0));
+    }
+  }
+  return out;
+};
+
+// Otsu's method: the brightness that best splits the frame into two groups (page and background)
+const otsuThreshold = (values: Float32Array) => {
+  const histogram = new Array(256).fill(0);
+  values.forEach(v => histogram[Math.min(255, Math.max(0, Math.round(v)))]++);
+  const total = values.length;
+  const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+  let below = 0;
+  let sumBelow = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let level = 0; level < 256; level++) {
+    below += histogram[level];
+    if (below === 0) continue;
+    const above = total - below;
+    if (above === 0) break;
+    sumBelow += level * histogram[level];
+    const meanBelow = sumBelow / below;
+    const meanAbove = (sumAll - sumBelow) / above;
+    const spread = below * above * (meanBelow - meanAbove) ** 2;
+    if (spread > best) {
+      best = spread;
+      threshold = level;
+    }
+  }
+  return threshold;
+};
+
+// Pixels of the largest 4-connected region of `mask`
+const largestRegion = (mask: Uint8Array, width: number, height: number): number[] => {
+  const seen = new Uint8Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  let best: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const region: number[] = [];
+    let top = 0;
+    stack[top++] = start;
+    seen[start] = 1;
+    while (top > 0) {
+      const p = stack[--top];
+      region.push(p);
+      const x = p % width;
+      const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+      for (const n of neighbours) {
+        if (n < 0 || n >= mask.length || !mask[n] || seen[n]) continue;
+        seen[n] = 1;
+        stack[top++] = n;
+      }
+    }
+    if (region.length > best.length) best = region;
+  }
+  return best;
+};
+
+export const quadArea = (quad: Quad) => {
+  let twice = 0;
+  quad.forEach((p, i) => {
+    const q = quad[(i + 1) % 4];
+    twice += p.x * q.y - q.x * p.y;
+  });
+  return Math.abs(twice) / 2;
+};
+
+// Reject shapes that fill too little of the frame or that the bright region covers poorly (not a page)
+const MIN_PAGE_AREA = 0.15;
+const MIN_PAGE_FILL = 0.6;
+
+/**
+ * Finds the page in a frame by its brightness against the background: the brightest
+ * large region, with its corners at the extremes of x + y and x - y. Works best on a
+ * small frame (about 300 px across). Returns null when no page-like shape stands out.
+ */
+export const detectPageCorners = (frame: Pixels): Quad | null => {
+  const { width, height } = frame;
+  const gray = boxBlur(grayscale(frame), width, height, Math.max(1, Math.round(Math.min(width, height) / 100)));
+  const threshold = otsuThreshold(gray);
+  const mask = new Uint8Array(gray.length);
+  gray.forEach((v, p) => { mask[p] = v > threshold ? 1 : 0; });
+
+  const region = largestRegion(mask, width, height);
+  if (region.length === 0) return null;
+  let tl = region[0], tr = region[0], br = region[0], bl = region[0];
+  const sum = (p: number) => (p % width) + Math.floor(p / width);
+  const diff = (p: number) => (p % width) - Math.floor(p / width);
+  for (const p of region) {
+    if (sum(p) < sum(tl)) tl = p;
+    if (sum(p) > sum(br)) br = p;
+    if (diff(p) > diff(tr)) tr = p;
+    if (diff(p) < diff(bl)) bl = p;
+  }
+  const toPoint = (p: number): Point => ({ x: p % width, y: Math.floor(p / width) });
+  const quad: Quad = [toPoint(tl), toPoint(tr), toPoint(br), toPoint(bl)];
+
+  const area = quadArea(quad);
+  if (area < MIN_PAGE_AREA * width * height || region.length < MIN_PAGE_FILL * area) return null;
+  return quad;
+};
+
+export const scaleQuad = (quad: Quad, sx: number, sy = sx): Quad =>
+  quad.map(p => ({ x: p.x * sx, y: p.y * sy })) as Quad;
+
+// --- Perspective Correction ---
+
+// Solves a small dense system by Gaussian elimination with partial pivoting
+const solve = (a: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-12) throw new Error("The page corners are degenerate.");
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+};
+
+/** The 3x3 projective transform (row-major, last entry 1) taking each `from` corner to the matching `to` corner. */
+export const homography = (from: Quad, to: Quad): number[] => {
+  const a: number[][] = [];
+  const b: number[] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  });
+  return [...solve(a, b), 1];
+};
+
+const distance = (p: Point, q: Point) => Math.hypot(p.x - q.x, p.y - q.y);
+
+/** Output size for a flattened page: its longest opposite edges, shrunk to fit `maxDimension`. */
+export const flattenedSize = (quad: Quad, maxDimension: number) => {
+  const [tl, tr, br, bl] = quad;
+  const width = Math.max(distance(tl, tr), distance(bl, br));
+  const height = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/** Maps the `quad` region of `source` onto an upright rectangle, sampling bilinearly. */
+export const warpPerspective = (source: Pixels, quad: Quad, width: number, height: number): Pixels => {
+  // Map each output pixel back into the source, so every output pixel is filled
+  const rect: Quad = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+  const h = homography(rect, quad);
+  const out = new Uint8ClampedArray(width * height * 4);
+  const { data, width: sw, height: sh } = source;
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      const w = h[6] * u + h[7] * v + h[8];
+      const x = Math.min(sw - 1, Math.max(0, (h[0] * u + h[1] * v + h[2]) / w));
+      const y = Math.min(sh - 1, Math.max(0, (h[3] * u + h[4] * v + h[5]) / w));
+      const x0 = Math.floor(x), y0 = Math.floor(y);
+      const x1 = Math.min(sw - 1, x0 + 1), y1 = Math.min(sh - 1, y0 + 1);
+      const fx = x - x0, fy = y - y0;
+      const o = (v * width + u) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = data[(y0 * sw + x0) * 4 + c] * (1 - fx) + data[(y0 * sw + x1) * 4 + c] * fx;
+        const bottom = data[(y1 * sw + x0) * 4 + c] * (1 - fx) + data[(y1 * sw + x1) * 4 + c] * fx;
+        out[o + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { data: out, width, height };
+};
+
+// --- Lighting ---
+
+const percentile = (values: number[], fraction: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+};
+
+const LIGHTING_GRID = 16; // Cells along each side used to estimate the paper's brightness
+
+/**
+ * Evens out shadows and uneven light, then stretches the contrast so print is dark and
+ * paper is white. The paper's brightness is estimated per cell of a coarse grid from
+ * its brightest pixels, so print doesn't darken the estimate. Works in place.
+ */
+export const enhanceContrast = (page: Pixels): Pixels => {
+  const { data, width, height } = page;
+  const cols = Math.min(LIGHTING_GRID, width);
+  const rows = Math.min(LIGHTING_GRID, height);
+  const cellW = width / cols;
+  const cellH = height / rows;
+  const paper = new Float32Array(cols * rows);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const samples: number[] = [];
+      const step = Math.max(1, Math.floor(Math.min(cellW, cellH) / 16));
+      for (let y = Math.floor(r * cellH); y < Math.floor((r + 1) * cellH); y += step) {
+        for (let x = Math.floor(c * cellW); x < Math.floor((c + 1) * cellW); x += step) samples.push(luminance(data, (y * width + x) * 4));
+      }
+      paper[r * cols + c] = Math.max(32, samples.length ? percentile(samples, 0.9) : 255);
+    }
+  }
+
+  // Smoothly interpolated between cell centres, so cell edges don't show
+  const paperAt = (x: number, y: number) => {
+    const gx = Math.min(cols - 1, Math.max(0, x / cellW - 0.5));
+    const gy = Math.min(rows - 1, Math.max(0, y / cellH - 0.5));
+    const c0 = Math.floor(gx), r0 = Math.floor(gy);
+    const c1 = Math.min(cols - 1, c0 + 1), r1 = Math.min(rows - 1, r0 + 1);
+    const fx = gx - c0, fy = gy - r0;
+    const top = paper[r0 * cols + c0] * (1 - fx) + paper[r0 * cols + c1] * fx;
+    const bottom = paper[r1 * cols + c0] * (1 - fx) + paper[r1 * cols + c1] * fx;
+    return top * (1 - fy) + bottom * fy;
+  };
+
+  const levels: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const gain = 255 / paperAt(x, y);
+      for (let c = 0; c < 3; c++) data[i + c] = data[i + c] * gain;
+      if ((x + y) % 7 === 0) levels.push(luminance(data, i));
+    }
+  }
+
+  // Darkest print becomes black; the paper is already white
+  const black = Math.min(percentile(levels, 0.02), 160);
+  const stretch = 255 / (255 - black);
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) data[i + c] = (data[i + c] - black) * stretch;
+  }
+  return page;
+};
+
+/** Flattens the page inside `quad` (or the whole frame without one) and, optionally, fixes its lighting. */
+export const scanPage = (frame: Pixels, quad: Quad | null, options: { maxDimension: number; enhance: boolean }): Pixels => {
+  const corners: Quad = quad ?? [{ x: 0, y: 0 }, { x: frame.width - 1, y: 0 }, { x: frame.width - 1, y: frame.height - 1 }, { x: 0, y: frame.height - 1 }];
+  const { width, height } = flattenedSize(corners, options.maxDimension);
+  const page = warpPerspective(frame, corners, width, height);
+  return options.enhance ? enhanceContrast(page) : page;
+};
@@ -0,0 +1,21 @@
+import { LectureSettings, TranscriptTurn } from "../types";
+import { professorAudienceInstruction, teacherPersona } from "./lectureSettings";
+
+// --- Professor Persona ---
+// Shared by the voice (Live API) and typed chat modes so both answer the same way.
+
+export const professorInstruction = (contextSummary: string, language: string, settings: LectureSettings) =>
+  `You are ${teacherPersona(settings)}, helpful and knowledgeable, teaching a class.
+  The user has uploaded book pages on the topic: "${contextSummary}".
+  Answer questions specifically based on the context of the book pages provided.
+  ${professorAudienceInstruction(settings)}
+  Be encouraging.
+  If the user asks something unrelated, gently steer them back to the lecture topic.
+  Always speak to the student in ${language}, even when the book pages are in another language.`;
+
+/** Earlier turns as plain text, used to bring a fresh voice session up to speed. */
+export const conversationRecap = (turns: TranscriptTurn[]) =>
+  `Here is our conversation so far:\n\n${turns
+    .filter(t => t.text.trim())
+    .map(t => `${t.role === 'student' ? 'Student' : 'Professor'}: ${t.text.trim()}`)
+    .join('\n')}\n\nContinue from here.`;
@@ -0,0 +1,150 @@
+import { BookRecord, QuestionGrade, QuizHistoryEntry, QuizQuestion, SavedLecture, SourceFileMeta } from "../types";
+import { STORES, promisifyRequest, withStore } from "./db";
+
+// --- Progress History ---
+// Every finished quiz and every scanned book is kept in IndexedDB, so the
+// dashboard works offline and nothing about the student leaves the device.
+
+export const recordQuizResult = (entry: QuizHistoryEntry): Promise<void> =>
+  withStore(STORES.quizHistory, 'readwrite', async (store) => {
+    await promisifyRequest(store.put(entry));
+  });
+
+/** Oldest first. */
+export const listQuizHistory = (): Promise<QuizHistoryEntry[]> =>
+  withStore(STORES.quizHistory, 'readonly', (store) =>
+    promisifyRequest<QuizHistoryEntry[]>(store.index('completedAt').getAll())
+  );
+
+/** Per-question results of a graded quiz, with the section headings they test. */
+export const questionResults = (quiz: QuizQuestion[], grades: Record<number, QuestionGrade>, sectionHeadings: string[]) =>
+  quiz.map((q, idx) => ({
+    question: q.question,
+    type: q.type,
+    sectionIndex: q.sectionIndex,
+    sectionHeading: q.sectionIndex !== undefined ? sectionHeadings[q.sectionIndex] : undefined,
+    score: grades[idx]?.score ?? 0,
+  }));
+
+// --- Books ---
+
+// The same files uploaded again map to the same book
+export const bookIdFor = (sourceFiles: SourceFileMeta[]) =>
+  sourceFiles.map(f => `${f.name}:${f.size}`).join('|');
+
+export const bookNameFor = (sourceFiles: SourceFileMeta[]) =>
+  sourceFiles.length > 1 ? `${sourceFiles[0].name} and ${sourceFiles.length - 1} more` : sourceFiles[0]?.name ?? "Untitled book";
+
+export const saveBookChapters = (sourceFiles: SourceFileMeta[], chapters: string[]): Promise<void> =>
+  withStore(STORES.books, 'readwrite', async (store) => {
+    const book: BookRecord = { id: bookIdFor(sourceFiles), name: bookNameFor(sourceFiles), chapters, updatedAt: Date.now() };
+    await promisifyRequest(store.put(book));
+  });
+
+export const listBooks = (): Promise<BookRecord[]> =>
+  withStore(STORES.books, 'readonly', (store) => promisifyRequest<BookRecord[]>(store.getAll()));
+
+// --- Dashboard Summaries ---
+
+export interface ChapterCoverage {
+  bookId: string;
+  name: string;
+  chapters: { title: string; lectureIds: string[] }[]; // No lecture ids yet means not studied
+  fullBookLectureIds: string[]; // Lectures that taught the whole book
+}
+
+/** Chapters studied and not yet studied, per book; books never scanned list only their lectures. */
+export const chapterCoverage = (books: BookRecord[], lectures: SavedLecture[]): ChapterCoverage[] => {
+  const coverage = new Map<string, ChapterCoverage>();
+  books.forEach(book => coverage.set(book.id, {
+    bookId: book.id,
+    name: book.name,
+    chapters: book.chapters.map(title => ({ title, lectureIds: [] })),
+    fullBookLectureIds: [],
+  }));
+  lectures.forEach(lecture => {
+    const id = bookIdFor(lecture.sourceFiles);
+    let book = coverage.get(id);
+    if (!book) {
+      book = { bookId: id, name: bookNameFor(lecture.sourceFiles), chapters: [], fullBookLectureIds: [] };
+      coverage.set(id, book);
+    }
+    if (!lecture.chapter) {
+      book.fullBookLectureIds.push(lecture.id);
+      return;
+    }
+    const chapter = book.chapters.find(c => c.title === lecture.chapter);
+    if (chapter) chapter.lectureIds.push(lecture.id);
+    else book.chapters.push({ title: lecture.chapter, lectureIds: [lecture.id] });
+  });
+  return Array.from(coverage.values());
+};
+
+export interface MissedConcept {
+  lectureId: string;
+  lectureTitle: string;
+  sectionIndex: number;
+  heading: string;
+  missed: number; // Questions not fully correct
+  asked: number;
+}
+
+/** Sections whose questions the student gets wrong most often, worst first. */
+export const frequentlyMissedConcepts = (history: QuizHistoryEntry[], limit = 5): MissedConcept[] => {
+  const concepts = new Map<string, MissedConcept>();
+  history.forEach(entry => entry.questions.forEach(q => {
+    if (q.sectionIndex === undefined) return;
+    const key = `${entry.lectureId}:${q.sectionIndex}`;
+    const concept = concepts.get(key) ?? {
+      lectureId: entry.lectureId,
+      lectureTitle: entry.lectureTitle,
+      sectionIndex: q.sectionIndex,
+      heading: q.sectionHeading || `Section ${q.sectionIndex + 1}`,
+      missed: 0,
+      asked: 0,
+    };
+    concept.asked++;
+    if (q.score < 1) concept.missed++;
+    concepts.set(key, concept);
+  }));
+  return Array.from(concepts.values())
+    .filter(c => c.missed > 0)
+    .sort((a, b) => b.missed / b.asked - a.missed / a.asked || b.missed - a.missed)
+    .slice(0, limit);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar day, so a streak follows the student's own midnight
+const dayNumber = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return Math.round(new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime() / DAY_MS);
+};
+
+export interface StudyStreak {
+  current: number; // Consecutive days up to today (or yesterday, if today has no activity yet)
+  longest: number;
+  activeDays: number;
+}
+
+/** Streaks of consecutive days with any study activity. */
+export const studyStreak = (activityTimestamps: number[], now: number = Date.now()): StudyStreak => {
+  const days = Array.from(new Set(activityTimestamps.map(dayNumber))).sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && day === days[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  const today = dayNumber(now);
+  const last = days[days.length - 1];
+  const current = last === today || last === today - 1 ? run : 0;
+  return { current, longest, activeDays: days.length };
+};
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
@@ -0,0 +1,595 @@
+import { GoogleGenAI, Type, Modality, GenerateContentResponse } from "@google/genai";
+import { LectureContent, LectureSection, QuizQuestion, UploadedFile, QuizConfig, ShortAnswerQuestion, QuestionGrade, FlashcardDraft, QuizContext, TranscriptTurn, LectureSettings, Syllabus } from "../../types";
+import { AIProvider, LectureStreamOptions, SpeechAudio, ChatStreamOptions, TranslatedLecture, ImageOptions, RequestOptions } from "../aiProvider";
+import { readPartialLecture } from "../streamingJson";
+import { normalizeSectionCitations } from "../citations";
+import { normalizeSectionVisual } from "../diagrams";
+import { QUESTION_TYPE_LABELS } from "../quiz";
+import { checkTranslatedDiagrams, requestValidated, validateChapters, validateFlashcards, validateGrade, validateLecture, validateQuiz, validateTranslation } from "../validation";
+import { normalizeSyllabus } from "../courses";
+import { ServiceError } from "../errors";
+import { DEFAULT_LECTURE_SETTINGS, describeLectureSettings, lectureSettingsInstruction, quizDifficultyInstruction, teacherPersona } from "../lectureSettings";
+
+const toFileParts = (files: UploadedFile[]) => files.map(f => ({
+  inlineData: {
+    mimeType: f.mimeType,
+    data: f.data
+  }
+}));
+
+// Numbers each file so the model can cite it by index
+const toLabelledFileParts = (files: UploadedFile[]) => files.flatMap((f, i) => [
+  { text: `File ${i}${f.name ? ` (${f.name})` : ''}, ${f.mimeType === 'application/pdf' ? 'PDF' : 'photo'}:` },
+  ...toFileParts([f]),
+]);
+
+// Text fields are rendered as Markdown with KaTeX math (see MarkdownText)
+const SHORT_TEXT_FORMAT = `
+      Text fields may use Markdown: **bold**, *italics* and \`inline code\`. Write all math in LaTeX between single dollar
+      signs, e.g. $E = mc^2$ or $H_2O$; never spell formulas with plain-text symbols like ^ or sqrt().
+`;
+
+// Finish reasons that mean the model stopped because of a content policy
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_SAFETY'];
+
+// A refused request comes back as an ordinary reply with no content, so make it an error
+const checkNotBlocked = <T extends GenerateContentResponse>(response: T): T => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new ServiceError('safety', `The request was blocked (${blockReason ?? finishReason}).`);
+  }
+  return response;
+};
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  // --- Chapter Extraction ---
+
+  const extractChapters = async (files: UploadedFile[], options: RequestOptions = {}): Promise<string[]> => {
+    const model = "gemini-3-pro-preview"; // High context window for full books
+
+    const prompt = `
+      Analyze the provided document(s). 
+      Identify the Table of Contents or the main chapter structure. 
+      List the titles of all the chapters or main sections found.
+      Return the result as a JSON object with a single property 'chapters' containing an array of strings.
+      If no clear chapters are found, list the main topic headings.
+    `;
+
+    const ask = async (repair: string | null) => checkNotBlocked(await ai.models.generateContent({
+      model,
+      contents: {
+        role: 'user',
+        parts: [...toFileParts(files), { text: prompt + (repair ?? '') }]
+      },
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            chapters: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING }
+            }
+          },
+          required: ["chapters"]
+        }
+      }
+    })).text;
+
+    return requestValidated(ask, validateChapters);
+  };
+
+  // --- Course Planning ---
+
+  const generateSyllabus = async (
+    files: UploadedFile[],
+    chapters: string[],
+    language: string,
+    teachingLanguage: string,
+    settings: LectureSettings,
+    options: RequestOptions = {}
+  ): Promise<Syllabus> => {
+    const prompt = `
+      You are ${teacherPersona(settings)} planning a course that teaches the provided book (Language: ${language}) one chapter at a time.
+      The course is for this audience and style: ${describeLectureSettings(settings)}.
+      Write a course title and a one or two sentence description, then one syllabus entry for EACH of these chapters, in this order:
+      ${chapters.map((c, i) => `[${i}] ${c}`).join('\n')}
+      
+      For each chapter give:
+      - title: the chapter title exactly as listed above, without the index.
+      - summary: one sentence on what the chapter teaches.
+      - objectives: three to five learning objectives, each starting with a verb ("Explain...", "Calculate...").
+      - prerequisites: the 0-based indices of EARLIER chapters the student must understand first. Every chapter after
+        the first needs at least one; list only the chapters it really builds on.
+      Write everything except the chapter titles in ${teachingLanguage}.
+      ${SHORT_TEXT_FORMAT}
+    `;
+
+    const ask = async (repair: string | null) => checkNotBlocked(await ai.models.generateContent({
+      model: "gemini-3-pro-preview",
+      contents: {
+        role: 'user',
+        parts: [...toFileParts(files), { text: prompt + (repair ?? '') }]
+      },
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            description: { type: Type.STRING },
+            chapters: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  title: { type: Type.STRING },
+                  summary: { type: Type.STRING },
+                  objectives: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  prerequisites: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+                },
+                required: ["title", "summary", "objectives", "prerequisites"]
+              }
+            }
+          },
+          required: ["title", "description", "chapters"]
+        }
+      }
+    })).text;
+
+    // Missing or extra entries are filled in or dropped by normalizeSyllabus; only a missing list is worth a retry
+    return requestValidated(ask, raw => {
+      const syllabus = raw as Partial<Syllabus>;
+      return Array.isArray(syllabus?.chapters)
+        ? { value: normalizeSyllabus(syllabus, chapters), errors: [] }
+        : { value: null, errors: ['"chapters" must be an array with one entry per listed chapter.'] };
+    });
+  };
+
+  // --- Lecture Generation ---
+
+  const generateLecture = async (
+    files: UploadedFile[],
+    language: string,
+    teachingLanguage: string,
+    settings: LectureSettings,
+    focusTopic?: string,
+    options: LectureStreamOptions = {}
+  ): Promise<LectureContent> => {
+    const model = "gemini-3-pro-preview";
+
+    let prompt = `
+      You are ${teacherPersona(settings)}. 
+      Analyze the provided book pages/PDF (Language: ${language}). 
+      Create a lecture plan in ${teachingLanguage.toUpperCase()} to teach this material to a student.
+      Write the title, summary, headings and explanations in ${teachingLanguage}; keep the visual prompts in English.
+      ${lectureSettingsInstruction(settings)}
+    `;
+
+    if (focusTopic) {
+      prompt += `
+      CRITICAL INSTRUCTION: The student wants to study a specific chapter: "${focusTopic}".
+      Ignore other chapters. Focus the entire lecture, summary, and visual aids ONLY on explaining "${focusTopic}" in depth.
+      `;
+    } else {
+      prompt += `
+      Cover the main concepts found in the uploaded content.
+      `;
+    }
+
+    prompt += `
+      Structure the response as a JSON object with a title, a brief summary, and a list of sections.
+      For each section, provide a heading, a detailed explanation (content), and a specific prompt to generate a visual aid (diagram, chart, or illustration) that explains the concept.
+      
+      Write each section's content in Markdown: short paragraphs separated by blank lines, bullet or numbered lists for
+      steps and properties, **bold** for key terms, and ### subheadings only when a section is long. Write all math in
+      LaTeX, inline as $...$ and displayed equations as $$...$$ on their own lines; chemical formulas too, e.g. $CO_2$.
+      Show code from the source in fenced code blocks tagged with the language. Do not use raw HTML or images.
+      The title, summary and headings are plain text.
+      
+      The visual prompt should be descriptive, e.g., "A detailed biological diagram of a plant cell labeled with parts".
+      
+      Also pick the visualType that suits the concept best:
+      - "mermaid" for flowcharts, processes, cycles, timelines, hierarchies and relationships between named parts.
+        Put valid Mermaid source (flowchart, sequenceDiagram, timeline, mindmap, classDiagram or stateDiagram) in "mermaid",
+        without code fences. Keep node labels short and quote any label containing punctuation.
+      - "chart" when the concept is about quantities or data. Fill "chart" with kind ("bar", "line" or "pie"), an optional
+        title, xLabel and yLabel, the category labels, and one or more series whose values line up with the labels.
+      - "image" for anything that needs a picture: anatomy, physical appearance, scenes, maps.
+      The visual prompt is still required for every type; for text diagrams it serves as the caption.
+      
+      Each uploaded file is introduced by its number ("File 0", "File 1", ...). For each section, list one to three citations
+      showing where its claims come from: fileIndex (that number), page (1-based page of a PDF; omit it for photos)
+      and quote (a short passage, under 25 words, copied verbatim from the source).
+    `;
+
+    const finishSections = (sections: LectureSection[]) => normalizeSectionCitations(sections, files).map(normalizeSectionVisual);
+    let shownSections = 0;
+
+    // Streamed so the title, summary and each section can be shown as soon as they are written
+    const ask = async (repair: string | null) => {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: {
+          role: 'user',
+          parts: [...toLabelledFileParts(files), { text: prompt + (repair ?? '') }]
+        },
+        config: {
+          abortSignal: options.signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            propertyOrdering: ["title", "summary", "sections"],
+            properties: {
+              title: { type: Type.STRING },
+              summary: { type: Type.STRING },
+              sections: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    heading: { type: Type.STRING },
+                    content: { type: Type.STRING },
+                    visualPrompt: { type: Type.STRING },
+                    visualType: { type: Type.STRING, enum: ["image", "mermaid", "chart"] },
+                    mermaid: { type: Type.STRING },
+                    chart: {
+                      type: Type.OBJECT,
+                      properties: {
+                        kind: { type: Type.STRING, enum: ["bar", "line", "pie"] },
+                        title: { type: Type.STRING },
+                        xLabel: { type: Type.STRING },
+                        yLabel: { type: Type.STRING },
+                        labels: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        series: {
+                          type: Type.ARRAY,
+                          items: {
+                            type: Type.OBJECT,
+                            properties: {
+                              name: { type: Type.STRING },
+                              values: { type: Type.ARRAY, items: { type: Type.NUMBER } }
+                            },
+                            required: ["name", "values"]
+                          }
+                        }
+                      },
+                      required: ["kind", "labels", "series"]
+                    },
+                    citations: {
+                      type: Type.ARRAY,
+                      items: {
+                        type: Type.OBJECT,
+                        properties: {
+                          fileIndex: { type: Type.INTEGER },
+                          page: { type: Type.INTEGER },
+                          quote: { type: Type.STRING }
+                        },
+                        required: ["fileIndex", "quote"]
+                      }
+                    }
+                  },
+                  required: ["heading", "content", "visualPrompt", "visualType", "citations"]
+                }
+              }
+            },
+            required: ["title", "summary", "sections"]
+          }
+        }
+      });
+
+      let text = '';
+      for await (const chunk of stream) {
+        text += checkNotBlocked(chunk).text || '';
+        const partial = readPartialLecture(text);
+        // A repair attempt starts from nothing; keep showing the earlier sections until it catches up
+        if (partial.sections.length < shownSections) continue;
+        shownSections = partial.sections.length;
+        options.onProgress?.({ ...partial, sections: finishSections(partial.sections) });
+      }
+      return text;
+    };
+
+    return requestValidated(ask, raw => validateLecture(raw, files));
+  };
+
+  // --- Image Generation ---
+
+  const generateLectureImage = async (prompt: string, options: ImageOptions = {}): Promise<string> => {
+    // Using gemini-3-pro-image-preview for high quality educational visuals
+    const response = checkNotBlocked(await ai.models.generateContent({
+      model: 'gemini-3-pro-image-preview',
+      contents: {
+        parts: [{ text: prompt }]
+      },
+      config: {
+        abortSignal: options.signal,
+        imageConfig: {
+          aspectRatio: options.aspectRatio ?? "16:9",
+          imageSize: "1K"
+        }
+      }
+    }));
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+      }
+    }
+    throw new Error("The model did not return an image.");
+  };
+
+  // --- Quiz Generation ---
+
+  const generateQuiz = async (lectureContent: LectureContent, config: QuizConfig, context: QuizContext = {}, options: RequestOptions = {}): Promise<QuizQuestion[]> => {
+    const model = "gemini-3-pro-preview";
+    const typeList = config.questionTypes.map(t => `"${t}" (${QUESTION_TYPE_LABELS[t]})`).join(', ');
+    const studentQuestions = context.studentQuestions?.filter(q => q.trim()) ?? [];
+    const language = context.language || 'English';
+    const settings = context.lectureSettings ?? DEFAULT_LECTURE_SETTINGS;
+    
+    let prompt = `
+      Based on the following lecture content, generate ${config.questionCount} quiz questions to test the student's understanding.
+      Use a balanced mix of these question types: ${typeList}.
+      Write every question, option, answer, explanation and note in ${language}.
+      ${quizDifficultyInstruction(settings)}
+      ${SHORT_TEXT_FORMAT}
+      
+      Fill in only the fields that belong to each type:
+      - "multiple-choice": options (4) and correctAnswerIndex (0-based).
+      - "multi-select": options (4-6) and correctAnswerIndices (0-based, at least one).
+      - "true-false": correctAnswer (boolean).
+      - "fill-blank": a question sentence with the gap written as "____", and acceptedAnswers (all acceptable spellings or synonyms).
+      - "ordering": items listed in the CORRECT order (3-6 steps or events).
+      - "short-answer": rubric (the key points a full-credit answer must mention) and sampleAnswer.
+      
+      For EVERY question also provide:
+      - explanation: why the correct answer is right, in one to three sentences.
+      - sectionIndex: the 0-based index of the lecture section that teaches this concept.
+      - distractorNotes (only for "multiple-choice" and "multi-select"): one short note per option, in the same order as options,
+        saying why that option is wrong; use an empty string for correct options.
+      
+      Lecture Title: ${lectureContent.title}
+      Lecture Summary: ${lectureContent.summary}
+      Sections:
+      ${lectureContent.sections.map((s, i) => `[${i}] ${s.heading}: ${s.content}`).join('\n')}
+    `;
+
+    if (studentQuestions.length > 0) {
+      prompt += `
+      During class the student asked the professor these questions. They show what the student found unclear,
+      so include at least one question that checks each of these topics:
+      ${studentQuestions.map(q => `- ${q}`).join('\n')}
+      `;
+    }
+
+    if (context.focus?.length) {
+      prompt += `
+      This is a practice quiz on the student's weak spots. Make about three quarters of the questions about the sections
+      below, giving the weakest sections the most questions, and use the rest to briefly review other sections.
+      For a section under 50% mastery, ask more foundational questions than the ones the student missed; otherwise ask at
+      the same level or slightly harder. Test the same ideas from a new angle rather than repeating missed questions.
+      ${context.focus.map(f => {
+        const missed = f.missedQuestions.length ? ` Missed: ${f.missedQuestions.map(q => `"${q}"`).join('; ')}` : '';
+        return `- [${f.sectionIndex}] ${lectureContent.sections[f.sectionIndex]?.heading ?? ''} (mastery ${Math.round(f.mastery * 100)}%).${missed}`;
+      }).join('\n')}
+      `;
+    }
+
+    const ask = async (repair: string | null) => checkNotBlocked(await ai.models.generateContent({
+      model,
+      contents: prompt + (repair ?? ''),
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              type: { type: Type.STRING, enum: config.questionTypes },
+              question: { type: Type.STRING },
+              options: { type: Type.ARRAY, items: { type: Type.STRING } },
+              correctAnswerIndex: { type: Type.INTEGER, description: "0-based index of the correct option" },
+              correctAnswerIndices: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "0-based indices of every correct option" },
+              correctAnswer: { type: Type.BOOLEAN },
+              acceptedAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+              items: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Items in the correct order" },
+              rubric: { type: Type.STRING },
+              sampleAnswer: { type: Type.STRING },
+              explanation: { type: Type.STRING },
+              distractorNotes: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Why each option is wrong, parallel to options" },
+              sectionIndex: { type: Type.INTEGER, description: "0-based index of the lecture section covering this concept" }
+            },
+            required: ["type", "question", "explanation", "sectionIndex"]
+          }
+        }
+      }
+    })).text;
+
+    return requestValidated(ask, raw => validateQuiz(raw, {
+      questionCount: config.questionCount,
+      questionTypes: config.questionTypes,
+      sectionCount: lectureContent.sections.length,
+    }));
+  };
+
+  const gradeShortAnswer = async (question: ShortAnswerQuestion, answer: string, options: RequestOptions = {}): Promise<QuestionGrade> => {
+    const prompt = `
+      You are grading a student's short answer. Be fair and encouraging, and award partial credit.
+      
+      Question: ${question.question}
+      Rubric: ${question.rubric}
+      Sample full-credit answer: ${question.sampleAnswer}
+      
+      Student answer: ${answer}
+      
+      Return a score between 0 and 1 (for example 0.5 when half the rubric points are covered)
+      and one or two sentences of feedback that name what was missing or wrong, written in the language of the question.
+      Write any math in LaTeX between dollar signs.
+    `;
+
+    const ask = async (repair: string | null) => checkNotBlocked(await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt + (repair ?? ''),
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            score: { type: Type.NUMBER },
+            feedback: { type: Type.STRING }
+          },
+          required: ["score", "feedback"]
+        }
+      }
+    })).text;
+
+    return requestValidated(ask, validateGrade);
+  };
+
+  // --- Flashcards ---
+
+  const generateFlashcards = async (lectureContent: LectureContent, language = 'English', options: RequestOptions = {}): Promise<FlashcardDraft[]> => {
+    const prompt = `
+      Turn the following lecture into study flashcards for spaced repetition, written in ${language}.
+      Write two to four cards per section. Each card tests ONE fact, definition or relationship.
+      The front is a short question or prompt; the back is a concise answer (one or two sentences).
+      Set sectionIndex to the 0-based index of the section the card comes from.
+      ${SHORT_TEXT_FORMAT}
+      
+      Lecture Title: ${lectureContent.title}
+      Sections:
+      ${lectureContent.sections.map((s, i) => `[${i}] ${s.heading}: ${s.content}`).join('\n')}
+    `;
+
+    const ask = async (repair: string | null) => checkNotBlocked(await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt + (repair ?? ''),
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              front: { type: Type.STRING },
+              back: { type: Type.STRING },
+              sectionIndex: { type: Type.INTEGER }
+            },
+            required: ["front", "back", "sectionIndex"]
+          }
+        }
+      }
+    })).text;
+
+    return requestValidated(ask, raw => validateFlashcards(raw, lectureContent.sections.length));
+  };
+
+  // --- Speech ---
+
+  const synthesizeSpeech = async (text: string, language?: string, options: RequestOptions = {}): Promise<SpeechAudio | null> => {
+    // Outside English the formulas are left as LaTeX (see spokenText.ts), to be said the way a teacher would in that language
+    const direction = /\$|\\[([]/.test(text) ? `Read aloud in ${language}, saying each LaTeX formula in words as a teacher would in ${language}` : `Read aloud in ${language}`;
+    const response = checkNotBlocked(await ai.models.generateContent({
+      model: "gemini-2.5-flash-preview-tts",
+      // The TTS model takes a spoken style direction ahead of the text, which keeps the accent right for short snippets
+      contents: [{ parts: [{ text: language ? `${direction}: ${text}` : text }] }],
+      config: {
+        abortSignal: options.signal,
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: 'Fenrir' }, // Deep, professor-like voice
+          },
+        },
+      },
+    }));
+
+    const inlineData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+    if (!inlineData?.data) return null;
+    // The TTS model returns raw 24kHz 16-bit PCM
+    return { data: inlineData.data, mimeType: inlineData.mimeType || 'audio/pcm;rate=24000' };
+  };
+
+  // --- Professor Chat ---
+
+  const chatWithProfessor = async (
+    files: UploadedFile[],
+    systemInstruction: string,
+    history: TranscriptTurn[],
+    options: ChatStreamOptions = {}
+  ): Promise<string> => {
+    // The book pages open the conversation so every reply is grounded in them
+    const stream = await ai.models.generateContentStream({
+      model: "gemini-2.5-flash",
+      contents: [
+        { role: 'user', parts: [...toFileParts(files), { text: "These are the book pages for today's class." }] },
+        ...history
+          .filter(t => t.text.trim())
+          .map(t => ({ role: t.role === 'student' ? 'user' : 'model', parts: [{ text: t.text }] })),
+      ],
+      config: {
+        abortSignal: options.signal,
+        systemInstruction: `${systemInstruction}
+        You are chatting in writing, so keep replies conversational and a few short paragraphs at most.`,
+      },
+    });
+
+    let reply = '';
+    for await (const chunk of stream) {
+      const text = checkNotBlocked(chunk).text || '';
+      if (!text) continue;
+      reply += text;
+      options.onChunk?.(text);
+    }
+    if (!reply) throw new Error("No response from Gemini");
+    return reply;
+  };
+
+  // --- Translation ---
+
+  const translateLecture = async (lectureContent: LectureContent, quiz: QuizQuestion[], language: string, options: RequestOptions = {}): Promise<TranslatedLecture> => {
+    const prompt = `
+      Translate the lecture and quiz in the JSON document below into ${language}.
+      Translate every human-readable string value: titles, headings, explanations, questions, options, answers, rubrics and notes.
+      Keep "visualPrompt", "visualType" and "citations" values and the "type" fields exactly as they are.
+      In "mermaid" diagrams translate only the label text; keep node ids, keywords, arrows and all other syntax unchanged.
+      In "chart" objects translate "title", "xLabel", "yLabel", "labels" and each series "name"; keep "kind" and every value.
+      Keep every key, number, boolean and the length and order of every array unchanged.
+      In fill-in-the-blank questions keep the "____" gap marker.
+      Keep Markdown formatting, LaTeX math between dollar signs and code blocks intact; translate only the prose around them.
+      Return only the translated JSON document.
+
+      ${JSON.stringify({ lecture: lectureContent, quiz })}
+    `;
+
+    const ask = async (repair: string | null) => checkNotBlocked(await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt + (repair ?? ''),
+      config: { abortSignal: options.signal, responseMimeType: "application/json" }
+    })).text;
+
+    return requestValidated(ask, raw => checkTranslatedDiagrams(validateTranslation(raw, lectureContent, quiz), lectureContent));
+  };
+
+  return {
+    name: 'gemini',
+    extractChapters,
+    generateSyllabus,
+    generateLecture,
+    generateLectureImage,
+    generateQuiz,
+    gradeShortAnswer,
+    generateFlashcards,
+    synthesizeSpeech,
+    chatWithProfessor,
+    translateLecture,
+  };
+};
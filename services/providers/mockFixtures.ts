@@ -0,0 +1,178 @@
+// Recorded model responses replayed by the mock provider. They are kept as raw
+// JSON text, exactly as the model returned them, so the mock exercises the same
+// parsing path as the live backend.
+
+export interface MockFixtures {
+  chapters: string;
+  syllabus: string;
+  lecture: string;
+  quiz: string;
+  flashcards: string;
+  /** Plain-text professor reply; chat responses are not JSON. */
+  chatReply: string;
+  /** Simulated network latency per call, in milliseconds. */
+  latencyMs: number;
+}
+
+export const defaultMockFixtures: MockFixtures = {
+  latencyMs: 400,
+
+  chapters: JSON.stringify({
+    chapters: [
+      "Chapter 1: Light and Pigments",
+      "Chapter 2: The Light-Dependent Reactions",
+      "Chapter 3: The Calvin Cycle",
+      "Chapter 4: Photosynthesis and the Environment"
+    ]
+  }),
+
+  syllabus: JSON.stringify({
+    title: "Photosynthesis from Photon to Sugar",
+    description: "A four-chapter course that follows light energy into the chemical energy of sugar, then out into the wider environment.",
+    chapters: [
+      {
+        title: "Chapter 1: Light and Pigments",
+        summary: "What light is made of and how chlorophyll and carotenoids absorb it.",
+        objectives: ["Describe the visible spectrum in terms of wavelength", "Explain why leaves look green", "Compare chlorophyll a, chlorophyll b and carotenoids"],
+        prerequisites: []
+      },
+      {
+        title: "Chapter 2: The Light-Dependent Reactions",
+        summary: "How the thylakoid membrane turns absorbed light into ATP and NADPH.",
+        objectives: ["Trace electrons from water to NADPH", "Explain how a proton gradient drives ATP synthase", "Identify where oxygen is released"],
+        prerequisites: [0]
+      },
+      {
+        title: "Chapter 3: The Calvin Cycle",
+        summary: "How RuBisCO fixes carbon dioxide and the cycle builds sugar with ATP and NADPH.",
+        objectives: ["Name the three stages of the Calvin cycle", "Explain the role of RuBisCO", "Account for the ATP and NADPH used per $CO_2$ fixed"],
+        prerequisites: [1]
+      },
+      {
+        title: "Chapter 4: Photosynthesis and the Environment",
+        summary: "How light, temperature and $CO_2$ limit the rate of photosynthesis.",
+        objectives: ["Identify the limiting factor in a given scenario", "Explain photorespiration", "Compare C3, C4 and CAM plants"],
+        prerequisites: [2]
+      }
+    ]
+  }),
+
+  lecture: JSON.stringify({
+    title: "Photosynthesis: How Plants Capture Light",
+    summary: "This lecture follows energy from sunlight into sugar. We look at how pigments absorb light, how the thylakoid membrane turns that light into ATP and NADPH, and how the Calvin cycle uses them to fix carbon dioxide.",
+    sections: [
+      {
+        heading: "Light and Pigments",
+        content: "Chlorophyll a and b absorb mostly blue and red light and reflect green, which is why leaves look green. Each absorbed photon carries energy\n\n$$E = \\frac{hc}{\\lambda}$$\n\nso shorter blue wavelengths deliver more energy than red ones. **Accessory pigments** such as carotenoids widen the range of usable wavelengths and protect the cell from excess light.",
+        visualPrompt: "An absorption spectrum chart comparing chlorophyll a, chlorophyll b and carotenoids across visible wavelengths",
+        visualType: "chart",
+        chart: {
+          kind: "line",
+          title: "Absorption spectra of photosynthetic pigments",
+          xLabel: "Wavelength (nm)",
+          yLabel: "Relative absorption (%)",
+          labels: ["400", "450", "500", "550", "600", "650", "700"],
+          series: [
+            { name: "Chlorophyll a", values: [60, 75, 10, 8, 20, 85, 15] },
+            { name: "Chlorophyll b", values: [40, 95, 30, 10, 25, 60, 5] },
+            { name: "Carotenoids", values: [55, 80, 70, 5, 0, 0, 0] }
+          ]
+        },
+        citations: [
+          { fileIndex: 0, page: 1, quote: "Chlorophyll absorbs light most strongly in the blue and red parts of the spectrum." },
+          { fileIndex: 0, page: 2, quote: "Carotenoids broaden the spectrum of light available for photosynthesis." }
+        ]
+      },
+      {
+        heading: "The Light-Dependent Reactions",
+        content: "In the thylakoid membrane, light drives a chain of events:\n\n1. **Photosystem II** splits water: $2H_2O \\rightarrow 4H^+ + 4e^- + O_2$.\n2. Excited electrons travel down an electron transport chain to **photosystem I**, pumping protons that drive ATP synthase.\n3. The chain ends by reducing $NADP^+$ to NADPH.",
+        visualPrompt: "A labeled diagram of a thylakoid membrane showing photosystem II, the electron transport chain, photosystem I and ATP synthase",
+        visualType: "image",
+        citations: [
+          { fileIndex: 0, page: 3, quote: "Photosystem II splits water molecules, releasing oxygen as a by-product." }
+        ]
+      },
+      {
+        heading: "The Calvin Cycle",
+        content: "In the stroma, the enzyme RuBisCO attaches $CO_2$ to ribulose bisphosphate. ATP and NADPH from the light reactions reduce the product to G3P, some of which leaves the cycle to build glucose while the rest regenerates RuBP.",
+        visualPrompt: "A circular diagram of the Calvin cycle showing carbon fixation, reduction and regeneration of RuBP",
+        visualType: "mermaid",
+        mermaid: "flowchart LR\n  A[\"RuBP + CO2\"] -->|RuBisCO| B[3-PGA]\n  B -->|\"ATP, NADPH\"| C[G3P]\n  C -->|leaves cycle| D[Glucose]\n  C -->|ATP| A",
+        citations: [
+          { fileIndex: 0, page: 5, quote: "RuBisCO catalyzes the attachment of CO2 to ribulose bisphosphate." }
+        ]
+      }
+    ]
+  }),
+
+  flashcards: JSON.stringify([
+    { front: "Which wavelengths does chlorophyll absorb most strongly?", back: "Blue and red light; green is reflected.", sectionIndex: 0 },
+    { front: "What is the role of carotenoids?", back: "They absorb extra wavelengths and protect the cell from excess light.", sectionIndex: 0 },
+    { front: "Where do the light-dependent reactions happen?", back: "In the thylakoid membrane.", sectionIndex: 1 },
+    { front: "What does photosystem II split, and what is released?", back: "Water; oxygen is released.", sectionIndex: 1 },
+    { front: "What two energy carriers do the light reactions produce?", back: "ATP and NADPH.", sectionIndex: 1 },
+    { front: "Which enzyme fixes CO2 in the Calvin cycle?", back: "RuBisCO, attaching CO2 to ribulose bisphosphate (RuBP).", sectionIndex: 2 },
+    { front: "What are the three stages of the Calvin cycle?", back: "Carbon fixation, reduction to G3P, regeneration of RuBP.", sectionIndex: 2 }
+  ]),
+
+  chatReply: "Good question! Think of the light-dependent reactions as charging the batteries: they capture light energy and store it in ATP and NADPH. The Calvin cycle then spends that stored energy to build sugar from carbon dioxide. So the two stages depend on each other, even though only the first one needs light directly.",
+
+  quiz: JSON.stringify([
+    {
+      type: "multiple-choice",
+      question: "Why do most leaves appear green?",
+      options: ["Chlorophyll absorbs green light", "Chlorophyll reflects green light", "Carotenoids emit green light", "Stomata filter out red light"],
+      correctAnswerIndex: 1,
+      explanation: "Chlorophyll absorbs red and blue light and reflects green wavelengths back to our eyes.",
+      distractorNotes: ["Absorbed light is used, not seen; green is the part that is not absorbed.", "", "Carotenoids absorb light; they do not emit it.", "Stomata exchange gases and have no effect on leaf color."],
+      sectionIndex: 0
+    },
+    {
+      type: "multi-select",
+      question: "Which of these are produced by the light-dependent reactions?",
+      options: ["ATP", "NADPH", "Glucose", "Oxygen", "Carbon dioxide"],
+      correctAnswerIndices: [0, 1, 3],
+      explanation: "The light reactions make ATP and NADPH for the Calvin cycle and release oxygen when water is split.",
+      distractorNotes: ["", "", "Glucose is built later from G3P made in the Calvin cycle.", "", "Carbon dioxide is consumed by the Calvin cycle, not produced."],
+      sectionIndex: 1
+    },
+    {
+      type: "true-false",
+      question: "The Calvin cycle takes place in the thylakoid membrane.",
+      correctAnswer: false,
+      explanation: "The Calvin cycle runs in the stroma; the thylakoid membrane hosts the light-dependent reactions.",
+      sectionIndex: 2
+    },
+    {
+      type: "fill-blank",
+      question: "The enzyme ____ attaches CO2 to ribulose bisphosphate.",
+      acceptedAnswers: ["RuBisCO", "ribulose bisphosphate carboxylase"],
+      explanation: "RuBisCO catalyzes carbon fixation, the first step of the Calvin cycle.",
+      sectionIndex: 2
+    },
+    {
+      type: "ordering",
+      question: "Put the stages of the Calvin cycle in order.",
+      items: ["Carbon fixation", "Reduction to G3P", "Regeneration of RuBP"],
+      explanation: "CO2 is fixed first, the product is reduced to G3P using ATP and NADPH, and the remaining G3P regenerates RuBP.",
+      sectionIndex: 2
+    },
+    {
+      type: "short-answer",
+      question: "Explain how the light-dependent reactions and the Calvin cycle depend on each other.",
+      rubric: "Light reactions supply ATP and NADPH to the Calvin cycle; the Calvin cycle returns ADP and NADP+ to the light reactions.",
+      sampleAnswer: "The light reactions make ATP and NADPH, which the Calvin cycle spends to turn CO2 into sugar. The Calvin cycle returns ADP and NADP+ so the light reactions can keep running.",
+      explanation: "The two stages form a loop: energy carriers flow from the thylakoid to the stroma and their spent forms flow back.",
+      sectionIndex: 1
+    },
+    {
+      type: "multiple-choice",
+      question: "Which molecule is split by photosystem II, releasing oxygen?",
+      options: ["Water", "Carbon dioxide", "Glucose", "NADPH"],
+      correctAnswerIndex: 0,
+      explanation: "Photosystem II splits water to replace the electrons it loses, releasing oxygen as a by-product.",
+      distractorNotes: ["", "Carbon dioxide is fixed in the Calvin cycle, not split.", "Glucose is a product of photosynthesis, not an input.", "NADPH is made at the end of the electron transport chain."],
+      sectionIndex: 1
+    }
+  ])
+};
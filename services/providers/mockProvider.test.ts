@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { QuizAnswer, QuizQuestion, UploadedFile } from '../../types';
+import { setAIProvider } from '../aiProvider';
+import { extractChapters, generateLecture, generateQuiz, gradeShortAnswer } from '../gemini';
+import { DEFAULT_LECTURE_SETTINGS } from '../lectureSettings';
+import { DEFAULT_QUIZ_CONFIG, gradeQuiz, sumGrades } from '../quiz';
+import { createMockProvider } from './mockProvider';
+
+const files: UploadedFile[] = [{ name: 'page-1.png', mimeType: 'image/png', data: 'iVBORw0KGgo=', size: 8 }];
+
+// The answer a student who knows the material would give
+const correctAnswer = (question: QuizQuestion): QuizAnswer => {
+  switch (question.type) {
+    case 'multiple-choice': return { type: question.type, selectedIndex: question.correctAnswerIndex };
+    case 'multi-select': return { type: question.type, selectedIndices: question.correctAnswerIndices };
+    case 'true-false': return { type: question.type, value: question.correctAnswer };
+    case 'fill-blank': return { type: question.type, text: question.acceptedAnswers[0] };
+    case 'ordering': return { type: question.type, order: question.items.map((_, i) => i) };
+    case 'short-answer': return { type: question.type, text: question.sampleAnswer };
+  }
+};
+
+const runClass = async () => {
+  const chapters = await extractChapters(files);
+  const progress: number[] = [];
+  const lecture = await generateLecture(files, 'English', 'English', DEFAULT_LECTURE_SETTINGS, chapters[0], {
+    onProgress: partial => progress.push(partial.sections.length),
+  });
+  const quiz = await generateQuiz(lecture, DEFAULT_QUIZ_CONFIG);
+  const answers = Object.fromEntries(quiz.map((q, i) => [i, correctAnswer(q)]));
+  const grades = await gradeQuiz(quiz, answers, gradeShortAnswer);
+  return { chapters, progress, lecture, quiz, grades };
+};
+
+describe('mock provider', () => {
+  it('takes an upload through the lecture and a fully correct quiz', async () => {
+    setAIProvider(createMockProvider({ latencyMs: 0 }));
+    const { chapters, progress, lecture, quiz, grades } = await runClass();
+
+    expect(chapters.length).toBeGreaterThan(0);
+    expect(lecture.title).toContain(chapters[0]);
+    expect(lecture.sections.length).toBeGreaterThan(0);
+    // Sections arrive while the lecture streams in, never going backwards
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress[progress.length - 1]).toBe(lecture.sections.length);
+
+    expect(quiz.length).toBeGreaterThan(0);
+    quiz.forEach(q => {
+      if (q.sectionIndex !== undefined) expect(q.sectionIndex).toBeLessThan(lecture.sections.length);
+    });
+    expect(sumGrades(grades)).toBe(quiz.length);
+  });
+
+  it('replays the same class every time', async () => {
+    setAIProvider(createMockProvider({ latencyMs: 0 }));
+    const first = await runClass();
+    const second = await runClass();
+    expect(second).toEqual(first);
+  });
+
+  it('stops when the request is cancelled', async () => {
+    setAIProvider(createMockProvider({ latencyMs: 50 }));
+    const controller = new AbortController();
+    const pending = generateLecture(files, 'English', 'English', DEFAULT_LECTURE_SETTINGS, undefined, { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
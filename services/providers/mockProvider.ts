@@ -0,0 +1,147 @@
+import { LectureContent, LectureSection, UploadedFile, QuizConfig, ShortAnswerQuestion, TranscriptTurn, QuizQuestion, ImageAspectRatio, LectureSettings, QuizContext, Syllabus } from "../../types";
+import { AIProvider, LectureStreamOptions, SpeechAudio, ChatStreamOptions, ImageOptions, RequestOptions } from "../aiProvider";
+import { readPartialLecture } from "../streamingJson";
+import { normalizeSectionCitations } from "../citations";
+import { normalizeSectionVisual } from "../diagrams";
+import { encodeWav } from "../audio";
+import { normalizeQuiz, RawQuizQuestion } from "../quiz";
+import { requestValidated, validateChapters, validateFlashcards, validateLecture, Validated } from "../validation";
+import { normalizeSyllabus } from "../courses";
+import { wait } from "../errors";
+import { MockFixtures, defaultMockFixtures } from "./mockFixtures";
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+// Splits a prompt into short lines so the placeholder diagram stays readable.
+const wrapText = (text: string, width: number) => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    if ((line + ' ' + word).trim().length > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = (line + ' ' + word).trim();
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Deterministic SVG standing in for a generated diagram, 800px wide at the requested aspect ratio.
+const renderPlaceholderImage = (prompt: string, aspectRatio: ImageAspectRatio = '16:9') => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const height = Math.round(800 * h / w);
+  const lines = wrapText(prompt, 48).slice(0, 6);
+  const text = lines
+    .map((l, i) => `<text x="400" y="${height / 2 - 25 + (i - lines.length / 2) * 30}" font-size="22" text-anchor="middle" fill="#44403c" font-family="serif">${escapeXml(l)}</text>`)
+    .join('');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="${height}" viewBox="0 0 800 ${height}"><rect width="800" height="${height}" fill="#eef2ff"/><rect x="24" y="24" width="752" height="${height - 48}" rx="24" fill="none" stroke="#a5b4fc" stroke-width="4" stroke-dasharray="12 8"/>${text}</svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+// Silent 8kHz mono WAV whose length roughly tracks the reading time of the text.
+const renderSilentWav = (text: string): SpeechAudio => {
+  const sampleRate = 8000;
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const seconds = Math.min(10, Math.max(1, words / 2.5));
+  const wav = encodeWav(new Uint8Array(Math.floor(sampleRate * seconds) * 2), sampleRate);
+
+  let binary = '';
+  for (let i = 0; i < wav.length; i++) binary += String.fromCharCode(wav[i]);
+  return { data: btoa(binary), mimeType: 'audio/wav' };
+};
+
+/**
+ * Offline backend that replays recorded responses. Every call resolves to the
+ * same output for the same input, which makes UI development and tests repeatable.
+ */
+export const createMockProvider = (overrides: Partial<MockFixtures> = {}): AIProvider => {
+  const fixtures: MockFixtures = { ...defaultMockFixtures, ...overrides };
+  const replay = async <T>(recorded: string, signal?: AbortSignal): Promise<T> => {
+    await wait(fixtures.latencyMs, signal);
+    return JSON.parse(recorded) as T;
+  };
+  // Recorded replies go through the live backend's validators, without repair attempts
+  const replayValidated = <T>(recorded: string, validate: (raw: unknown) => Validated<T>, signal?: AbortSignal): Promise<T> =>
+    requestValidated(async () => {
+      await wait(fixtures.latencyMs, signal);
+      return recorded;
+    }, validate, 0);
+
+  return {
+    name: 'mock',
+
+    extractChapters: (_files: UploadedFile[], options: RequestOptions = {}) => replayValidated(fixtures.chapters, validateChapters, options.signal),
+
+    generateSyllabus: async (_files: UploadedFile[], chapters: string[], _language: string, _teachingLanguage: string, _settings: LectureSettings, options: RequestOptions = {}) =>
+      normalizeSyllabus(await replay<Partial<Syllabus>>(fixtures.syllabus, options.signal), chapters),
+
+    // Replays the recorded lecture in small chunks, like a streamed response
+    generateLecture: async (files: UploadedFile[], _language: string, _teachingLanguage: string, _settings: LectureSettings, focusTopic?: string, options: LectureStreamOptions = {}) => {
+      const recorded = JSON.parse(fixtures.lecture) as LectureContent;
+      const text = JSON.stringify(focusTopic ? { ...recorded, title: `${focusTopic}: ${recorded.title}` } : recorded);
+      const finishSections = (sections: LectureSection[]) => normalizeSectionCitations(sections, files).map(normalizeSectionVisual);
+      const chunkSize = 160;
+      for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+        await wait(fixtures.latencyMs / 4, options.signal);
+        const partial = readPartialLecture(text.slice(0, end));
+        options.onProgress?.({ ...partial, sections: finishSections(partial.sections) });
+      }
+      return requestValidated(async () => text, raw => validateLecture(raw, files), 0);
+    },
+
+    generateLectureImage: async (prompt: string, options: ImageOptions = {}) => {
+      await wait(fixtures.latencyMs, options.signal);
+      return renderPlaceholderImage(prompt, options.aspectRatio);
+    },
+
+    // Practice quizzes put the recorded questions on the focus sections first
+    generateQuiz: async (lectureContent: LectureContent, config: QuizConfig, context: QuizContext = {}, options: RequestOptions = {}) => {
+      const recorded = normalizeQuiz(await replay<RawQuizQuestion[]>(fixtures.quiz, options.signal), lectureContent.sections.length);
+      const allowed = recorded.filter(q => config.questionTypes.includes(q.type));
+      const focus = context.focus?.map(f => f.sectionIndex) ?? [];
+      const rank = (q: QuizQuestion) => (q.sectionIndex !== undefined && focus.includes(q.sectionIndex) ? 0 : 1);
+      return [...(allowed.length > 0 ? allowed : recorded)].sort((a, b) => rank(a) - rank(b)).slice(0, config.questionCount);
+    },
+
+    // Keyword overlap with the sample answer stands in for the model's judgement
+    gradeShortAnswer: async (question: ShortAnswerQuestion, answer: string, options: RequestOptions = {}) => {
+      await wait(fixtures.latencyMs, options.signal);
+      const words = (text: string) => new Set(text.toLowerCase().split(/\W+/).filter(w => w.length > 3));
+      const expected = words(question.sampleAnswer || question.rubric);
+      const given = words(answer);
+      const covered = Array.from(expected).filter(w => given.has(w)).length;
+      const score = expected.size === 0 ? 1 : Math.round((covered / expected.size) * 4) / 4;
+      return {
+        score,
+        feedback: score === 1 ? "Covers every key point." : `Mentions ${covered} of ${expected.size} key terms from the model answer.`
+      };
+    },
+
+    generateFlashcards: (lectureContent: LectureContent, _language?: string, options: RequestOptions = {}) =>
+      replayValidated(fixtures.flashcards, raw => validateFlashcards(raw, lectureContent.sections.length), options.signal),
+
+    synthesizeSpeech: async (text: string, _language?: string, options: RequestOptions = {}) => {
+      await wait(fixtures.latencyMs, options.signal);
+      return renderSilentWav(text);
+    },
+
+    // Streams the recorded reply a few words at a time
+    chatWithProfessor: async (_files: UploadedFile[], _systemInstruction: string, _history: TranscriptTurn[], options: ChatStreamOptions = {}) => {
+      const words = fixtures.chatReply.split(/(?<=\s)/);
+      for (let i = 0; i < words.length; i += 4) {
+        await wait(fixtures.latencyMs / 8, options.signal);
+        options.onChunk?.(words.slice(i, i + 4).join(''));
+      }
+      return fixtures.chatReply;
+    },
+
+    // Marks the title so a "translated" copy is easy to tell apart; the text stays as recorded
+    translateLecture: async (lectureContent: LectureContent, quiz: QuizQuestion[], language: string, options: RequestOptions = {}) => {
+      await wait(fixtures.latencyMs, options.signal);
+      return { lecture: { ...lectureContent, title: `[${language}] ${lectureContent.title}` }, quiz };
+    },
+  };
+};
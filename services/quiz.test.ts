@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { QuizQuestion } from '../types';
+import { checkQuizQuestion, gradeLocally, initialAnswers } from './quiz';
+
+describe('checkQuizQuestion', () => {
+  it('accepts a well-formed multiple-choice question', () => {
+    const checked = checkQuizQuestion({ question: ' Which? ', options: ['A', 'B', 'C'], correctAnswerIndex: 2, sectionIndex: 1 }, 3);
+    expect(checked).toMatchObject({ type: 'multiple-choice', question: 'Which?', correctAnswerIndex: 2, sectionIndex: 1 });
+  });
+
+  it('rejects a blank option instead of shifting the answer key', () => {
+    expect(checkQuizQuestion({ type: 'multiple-choice', question: 'Q', options: ['A', ' ', 'C'], correctAnswerIndex: 2 })).toBe('has a blank option at index 1');
+  });
+
+  it('explains an answer index outside the options', () => {
+    expect(checkQuizQuestion({ type: 'multiple-choice', question: 'Q', options: ['A', 'B'], correctAnswerIndex: 2 })).toMatch(/correctAnswerIndex 2/);
+  });
+
+  it('merges and sorts multi-select answers', () => {
+    const checked = checkQuizQuestion({ type: 'multi-select', question: 'Q', options: ['A', 'B', 'C'], correctAnswerIndices: [2, 0, 2] });
+    expect(checked).toMatchObject({ correctAnswerIndices: [0, 2] });
+  });
+
+  it('drops section links past the end of the lecture', () => {
+    const checked = checkQuizQuestion({ type: 'true-false', question: 'Q', correctAnswer: true, sectionIndex: 5 }, 2);
+    expect(checked).toMatchObject({ type: 'true-false' });
+    expect((checked as QuizQuestion).sectionIndex).toBeUndefined();
+  });
+
+  it('adds a gap to fill-in-the-blank questions that lack one', () => {
+    expect(checkQuizQuestion({ type: 'fill-blank', question: 'Water boils at', acceptedAnswers: ['100'] })).toMatchObject({ question: 'Water boils at ____' });
+  });
+
+  it('reports unusable questions', () => {
+    expect(checkQuizQuestion({ question: '' })).toBe('has no question text');
+    expect(checkQuizQuestion({ type: 'true-false', question: 'Q' })).toMatch(/correctAnswer/);
+    expect(checkQuizQuestion({ type: 'essay' as never, question: 'Q' })).toBe('has unknown type "essay"');
+  });
+});
+
+describe('gradeLocally', () => {
+  const multiSelect: QuizQuestion = { type: 'multi-select', question: 'Q', explanation: '', options: ['A', 'B', 'C', 'D'], correctAnswerIndices: [0, 1] };
+
+  it('gives partial credit on multi-select, with wrong picks cancelling right ones', () => {
+    expect(gradeLocally(multiSelect, { type: 'multi-select', selectedIndices: [0, 1] })?.score).toBe(1);
+    expect(gradeLocally(multiSelect, { type: 'multi-select', selectedIndices: [0] })?.score).toBe(0.5);
+    expect(gradeLocally(multiSelect, { type: 'multi-select', selectedIndices: [0, 1, 2, 3] })?.score).toBe(0);
+  });
+
+  it('matches fill-in-the-blank answers ignoring case, accents and punctuation', () => {
+    const question: QuizQuestion = { type: 'fill-blank', question: '____ is green', explanation: '', acceptedAnswers: ['Clorofila'] };
+    expect(gradeLocally(question, { type: 'fill-blank', text: ' clorofíla. ' })?.score).toBe(1);
+    expect(gradeLocally(question, { type: 'fill-blank', text: 'carotene' })?.score).toBe(0);
+  });
+
+  it('scores ordering by the items in the right place', () => {
+    const question: QuizQuestion = { type: 'ordering', question: 'Order', explanation: '', items: ['a', 'b', 'c', 'd'] };
+    expect(gradeLocally(question, { type: 'ordering', order: [0, 1, 3, 2] })?.score).toBe(0.5);
+  });
+
+  it('starts ordering questions out of order', () => {
+    const question: QuizQuestion = { type: 'ordering', question: 'Order', explanation: '', items: ['a', 'b', 'c'] };
+    const answer = initialAnswers([question])[0];
+    expect(answer.type === 'ordering' && gradeLocally(question, answer)!.score).toBeLessThan(1);
+  });
+
+  it('scores a missing or mismatched answer as zero and leaves short answers to the model', () => {
+    const trueFalse: QuizQuestion = { type: 'true-false', question: 'Q', explanation: '', correctAnswer: false };
+    expect(gradeLocally(trueFalse, undefined)?.score).toBe(0);
+    expect(gradeLocally(trueFalse, { type: 'fill-blank', text: 'false' })?.score).toBe(0);
+    expect(gradeLocally({ type: 'short-answer', question: 'Why?', explanation: '', rubric: '', sampleAnswer: '' }, undefined)).toBeNull();
+  });
+});
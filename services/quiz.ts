@@ -0,0 +1,245 @@
+import { QuizQuestion, QuizAnswer, QuestionGrade, QuestionType, QuizConfig, ShortAnswerQuestion } from "../types";
+
+export type ShortAnswerGrader = (question: ShortAnswerQuestion, answer: string) => Promise<QuestionGrade>;
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  'multiple-choice': "Multiple choice",
+  'multi-select': "Select all that apply",
+  'true-false': "True / False",
+  'fill-blank': "Fill in the blank",
+  'ordering': "Put in order",
+  'short-answer': "Short answer",
+};
+
+export const ALL_QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
+
+export const DEFAULT_QUIZ_CONFIG: QuizConfig = {
+  questionCount: 5,
+  questionTypes: ['multiple-choice', 'multi-select', 'true-false', 'fill-blank', 'short-answer'],
+};
+
+// --- Normalization ---
+
+/**
+ * The flat shape the model fills in. Response schemas can't express a
+ * discriminated union, so every type-specific field is optional here.
+ */
+export interface RawQuizQuestion {
+  type?: string;
+  question?: string;
+  options?: string[];
+  correctAnswerIndex?: number;
+  correctAnswerIndices?: number[];
+  correctAnswer?: boolean;
+  acceptedAnswers?: string[];
+  items?: string[];
+  rubric?: string;
+  sampleAnswer?: string;
+  explanation?: string;
+  distractorNotes?: string[];
+  sectionIndex?: number;
+}
+
+const inRange = (index: number, length: number) => Number.isInteger(index) && index >= 0 && index < length;
+
+/**
+ * Converts a raw model question into the typed union, or explains why it can't be used.
+ * Fixable problems are fixed quietly: duplicate answers are merged and (given `sectionCount`)
+ * section links past the end of the lecture removed. Blank options are an error, since the
+ * answer indices count them.
+ */
+export const checkQuizQuestion = (raw: RawQuizQuestion, sectionCount?: number): QuizQuestion | string => {
+  if (!raw || typeof raw !== 'object') return "is not an object";
+  const question = typeof raw.question === 'string' ? raw.question.trim() : '';
+  if (!question) return "has no question text";
+  const options = Array.isArray(raw.options) ? raw.options : [];
+  const blankOption = options.findIndex(o => typeof o !== 'string' || !o.trim());
+  const base = {
+    question,
+    explanation: typeof raw.explanation === 'string' ? raw.explanation.trim() : '',
+    sectionIndex: raw.sectionIndex !== undefined && (sectionCount === undefined || inRange(raw.sectionIndex, sectionCount))
+      ? raw.sectionIndex
+      : undefined,
+  };
+  const distractorNotes = raw.distractorNotes?.length === options.length ? raw.distractorNotes : undefined;
+
+  // Questions saved before typed quizzes existed have no `type`
+  const type = raw.type ?? 'multiple-choice';
+
+  switch (type) {
+    case 'multiple-choice':
+      if (options.length < 2) return `needs at least 2 options but has ${options.length}`;
+      if (blankOption !== -1) return `has a blank option at index ${blankOption}`;
+      if (!inRange(raw.correctAnswerIndex ?? -1, options.length)) {
+        return `has correctAnswerIndex ${raw.correctAnswerIndex ?? 'missing'}, which is not a 0-based index into its ${options.length} options`;
+      }
+      return { ...base, type, options, correctAnswerIndex: raw.correctAnswerIndex!, distractorNotes };
+    case 'multi-select': {
+      if (options.length < 2) return `needs at least 2 options but has ${options.length}`;
+      if (blankOption !== -1) return `has a blank option at index ${blankOption}`;
+      const correct = Array.from(new Set(Array.isArray(raw.correctAnswerIndices) ? raw.correctAnswerIndices : [])).filter(i => inRange(i, options.length));
+      if (correct.length === 0) return `has no correctAnswerIndices within its ${options.length} options`;
+      return { ...base, type, options, correctAnswerIndices: correct.sort((a, b) => a - b), distractorNotes };
+    }
+    case 'true-false':
+      if (typeof raw.correctAnswer !== 'boolean') return "needs correctAnswer set to true or false";
+      return { ...base, type, correctAnswer: raw.correctAnswer };
+    case 'fill-blank': {
+      const accepted = Array.isArray(raw.acceptedAnswers) ? raw.acceptedAnswers.filter(a => typeof a === 'string').map(a => a.trim()).filter(Boolean) : [];
+      if (accepted.length === 0) return "has no acceptedAnswers";
+      return { ...base, type, question: question.includes('____') ? question : `${question} ____`, acceptedAnswers: accepted };
+    }
+    case 'ordering': {
+      const items = Array.isArray(raw.items) ? raw.items.filter(i => typeof i === 'string').map(i => i.trim()).filter(Boolean) : [];
+      if (items.length < 2) return `needs at least 2 items to order but has ${items.length}`;
+      return { ...base, type, items };
+    }
+    case 'short-answer':
+      return { ...base, type, rubric: raw.rubric?.trim() || '', sampleAnswer: raw.sampleAnswer?.trim() || '' };
+    default:
+      return `has unknown type "${type}"`;
+  }
+};
+
+/** Converts a raw model question into the typed union, or null if it can't be used. */
+export const normalizeQuizQuestion = (raw: RawQuizQuestion, sectionCount?: number): QuizQuestion | null => {
+  const checked = checkQuizQuestion(raw, sectionCount);
+  return typeof checked === 'string' ? null : checked;
+};
+
+export const normalizeQuiz = (raw: RawQuizQuestion[], sectionCount?: number): QuizQuestion[] =>
+  raw.map(q => normalizeQuizQuestion(q, sectionCount)).filter((q): q is QuizQuestion => q !== null);
+
+// --- Answering ---
+
+// Deterministic shuffle so an ordering question looks the same on every render
+const scrambledOrder = (length: number, seed: string): number[] => {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  const order = Array.from({ length }, (_, i) => i);
+  for (let i = length - 1; i > 0; i--) {
+    hash = (hash * 1103515245 + 12345) | 0;
+    const j = Math.abs(hash) % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  // Never start out already solved
+  if (order.every((v, i) => v === i)) order.reverse();
+  return order;
+};
+
+/** Answers that need a starting value before the student interacts (ordering lists). */
+export const initialAnswers = (questions: QuizQuestion[]): Record<number, QuizAnswer> => {
+  const answers: Record<number, QuizAnswer> = {};
+  questions.forEach((q, idx) => {
+    if (q.type === 'ordering') {
+      answers[idx] = { type: 'ordering', order: scrambledOrder(q.items.length, q.question) };
+    }
+  });
+  return answers;
+};
+
+export const isAnswered = (answer: QuizAnswer | undefined): boolean => {
+  if (!answer) return false;
+  switch (answer.type) {
+    case 'multi-select':
+      return answer.selectedIndices.length > 0;
+    case 'fill-blank':
+    case 'short-answer':
+      return answer.text.trim().length > 0;
+    default:
+      return true;
+  }
+};
+
+// --- Grading ---
+
+const normalizeText = (text: string) =>
+  text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/** Grades every type that has an objective key. Short answers return null and go to the model. */
+export const gradeLocally = (question: QuizQuestion, answer: QuizAnswer | undefined): QuestionGrade | null => {
+  if (question.type === 'short-answer') return null;
+  const none: QuestionGrade = { score: 0 };
+
+  switch (question.type) {
+    case 'multiple-choice':
+      if (answer?.type !== 'multiple-choice') return none;
+      return { score: answer.selectedIndex === question.correctAnswerIndex ? 1 : 0 };
+    case 'multi-select': {
+      if (answer?.type !== 'multi-select') return none;
+      const hits = answer.selectedIndices.filter(i => question.correctAnswerIndices.includes(i)).length;
+      const misses = answer.selectedIndices.length - hits;
+      // Each wrong pick cancels a right one, so selecting everything earns nothing
+      return { score: Math.max(0, (hits - misses) / question.correctAnswerIndices.length) };
+    }
+    case 'true-false':
+      if (answer?.type !== 'true-false') return none;
+      return { score: answer.value === question.correctAnswer ? 1 : 0 };
+    case 'fill-blank': {
+      if (answer?.type !== 'fill-blank') return none;
+      const given = normalizeText(answer.text);
+      return { score: question.acceptedAnswers.some(a => normalizeText(a) === given) ? 1 : 0 };
+    }
+    case 'ordering': {
+      if (answer?.type !== 'ordering') return none;
+      const inPlace = answer.order.filter((itemIdx, position) => itemIdx === position).length;
+      return { score: inPlace / question.items.length };
+    }
+  }
+};
+
+/** Grades a submitted quiz; short answers go to `gradeShortAnswer` (the model) to be marked against their rubric. */
+export const gradeQuiz = async (
+  questions: QuizQuestion[],
+  answers: Record<number, QuizAnswer>,
+  gradeShortAnswer: ShortAnswerGrader
+): Promise<Record<number, QuestionGrade>> => {
+  const grades: Record<number, QuestionGrade> = {};
+  await Promise.all(questions.map(async (q, idx) => {
+    const local = gradeLocally(q, answers[idx]);
+    if (local) {
+      grades[idx] = local;
+      return;
+    }
+    const answer = answers[idx];
+    const text = answer?.type === 'short-answer' ? answer.text : '';
+    if (!text.trim() || q.type !== 'short-answer') {
+      grades[idx] = { score: 0, feedback: "No answer given." };
+      return;
+    }
+    try {
+      grades[idx] = await gradeShortAnswer(q, text);
+    } catch (e) {
+      console.error("Short answer grading failed", e);
+      grades[idx] = { score: 0, feedback: "This answer could not be graded automatically. Compare it with the sample answer." };
+    }
+  }));
+  return grades;
+};
+
+export const sumGrades = (grades: Record<number, QuestionGrade>) =>
+  Object.values(grades).reduce((sum, g) => sum + g.score, 0);
+
+export const formatScore = (score: number) => (Number.isInteger(score) ? String(score) : score.toFixed(1));
+
+// --- Display ---
+
+export const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+/** Human-readable correct answer, used in results and answer keys. */
+export const formatCorrectAnswer = (question: QuizQuestion): string => {
+  switch (question.type) {
+    case 'multiple-choice':
+      return `${optionLetter(question.correctAnswerIndex)}. ${question.options[question.correctAnswerIndex]}`;
+    case 'multi-select':
+      return question.correctAnswerIndices.map(i => `${optionLetter(i)}. ${question.options[i]}`).join('; ');
+    case 'true-false':
+      return question.correctAnswer ? "True" : "False";
+    case 'fill-blank':
+      return question.acceptedAnswers.join(' / ');
+    case 'ordering':
+      return question.items.map((item, i) => `${i + 1}. ${item}`).join(' → ');
+    case 'short-answer':
+      return question.sampleAnswer || question.rubric;
+  }
+};
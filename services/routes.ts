@@ -0,0 +1,65 @@
+// --- Client-Side Routes ---
+// Hash URLs such as #/lecture/<id>/section/3, so the app works from any static
+// host, the browser's back button moves between screens, and a lecture, one of
+// its sections or its quiz can be bookmarked and shared.
+
+export type AppRoute =
+  | { view: 'upload' }
+  | { view: 'library' }
+  | { view: 'progress' }
+  | { view: 'review' }
+  | { view: 'course'; courseId: string }
+  | { view: 'lecture'; lectureId: string; sectionIndex?: number }
+  | { view: 'quiz'; lectureId: string }
+  | { view: 'results'; lectureId: string };
+
+const SIMPLE_VIEWS = ['library', 'progress', 'review'] as const;
+
+// Hand-edited links can carry malformed escapes; keep those parts as typed
+const decodePart = (part: string) => {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    return part;
+  }
+};
+
+/** Reads a route from `location.hash`; anything unrecognised is the upload screen. */
+export const parseRoute = (hash: string): AppRoute => {
+  const parts = hash.replace(/^#\/?/, '').split('/').filter(Boolean).map(decodePart);
+  const [view, id, sub, arg] = parts;
+  if ((SIMPLE_VIEWS as readonly string[]).includes(view) && !id) return { view: view as typeof SIMPLE_VIEWS[number] };
+  if (view === 'course' && id) return { view: 'course', courseId: id };
+  if (view === 'lecture' && id) {
+    if (sub === 'quiz') return { view: 'quiz', lectureId: id };
+    if (sub === 'results') return { view: 'results', lectureId: id };
+    // Section numbers in URLs start at 1, as they are shown next to each heading
+    const number = Number(arg);
+    if (sub === 'section' && Number.isInteger(number) && number >= 1) return { view: 'lecture', lectureId: id, sectionIndex: number - 1 };
+    return { view: 'lecture', lectureId: id };
+  }
+  return { view: 'upload' };
+};
+
+export const formatRoute = (route: AppRoute): string => {
+  switch (route.view) {
+    case 'upload':
+      return '#/';
+    case 'course':
+      return `#/course/${encodeURIComponent(route.courseId)}`;
+    case 'lecture':
+      return route.sectionIndex !== undefined
+        ? `#/lecture/${encodeURIComponent(route.lectureId)}/section/${route.sectionIndex + 1}`
+        : `#/lecture/${encodeURIComponent(route.lectureId)}`;
+    case 'quiz':
+    case 'results':
+      return `#/lecture/${encodeURIComponent(route.lectureId)}/${route.view}`;
+    default:
+      return `#/${route.view}`;
+  }
+};
+
+/** True when both routes show the same screen; a section anchor doesn't make a new screen. */
+export const isSameScreen = (a: AppRoute, b: AppRoute) =>
+  formatRoute(a.view === 'lecture' ? { ...a, sectionIndex: undefined } : a) ===
+  formatRoute(b.view === 'lecture' ? { ...b, sectionIndex: undefined } : b);
@@ -0,0 +1,115 @@
+import { Language } from "../types";
+import { DEFAULT_TEACHING_LANGUAGE } from "./language";
+
+// --- Spoken Text ---
+// Lecture text is Markdown with LaTeX math. Read as-is, TTS would pronounce
+// "dollar backslash frac", so Markdown markup is removed before synthesis and,
+// in English, formulas are rewritten the way a teacher says them. The spoken
+// forms are English only, so in other languages the LaTeX is left for the TTS
+// model, which is told the language, to read out itself.
+
+const GREEK_LETTERS = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'varepsilon', 'zeta', 'eta', 'theta', 'vartheta', 'iota', 'kappa',
+  'lambda', 'mu', 'nu', 'xi', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'varphi', 'chi', 'psi', 'omega',
+];
+
+const SYMBOLS: Record<string, string> = {
+  times: 'times', cdot: 'times', div: 'divided by', pm: 'plus or minus', mp: 'minus or plus',
+  neq: 'is not equal to', ne: 'is not equal to', leq: 'is less than or equal to', le: 'is less than or equal to',
+  geq: 'is greater than or equal to', ge: 'is greater than or equal to', approx: 'is approximately', sim: 'is similar to',
+  equiv: 'is equivalent to', propto: 'is proportional to', to: 'to', rightarrow: 'yields', longrightarrow: 'yields',
+  Rightarrow: 'implies', leftarrow: 'from', rightleftharpoons: 'is in equilibrium with', leftrightarrow: 'if and only if',
+  infty: 'infinity', partial: 'partial', nabla: 'del', sum: 'the sum of', prod: 'the product of', int: 'the integral of',
+  oint: 'the contour integral of', lim: 'the limit', log: 'log', ln: 'natural log', sin: 'sine', cos: 'cosine',
+  tan: 'tangent', exp: 'exp', in: 'in', notin: 'not in', subset: 'is a subset of', cup: 'union', cap: 'intersection',
+  forall: 'for all', exists: 'there exists', degree: 'degrees', circ: 'degrees', ldots: 'and so on', cdots: 'and so on',
+  dots: 'and so on', prime: 'prime', angle: 'angle', perp: 'is perpendicular to', parallel: 'is parallel to',
+};
+
+// Accents, font changes and sizing commands that only affect how their argument looks
+const STYLE_COMMANDS = 'text|textbf|textit|mathrm|mathbf|mathit|mathsf|mathcal|mathbb|operatorname|vec|hat|bar|overline|underline|boldsymbol|ce';
+
+const ORDINALS: Record<string, string> = { '2': 'square', '3': 'cube', '4': 'fourth', '5': 'fifth', 'n': 'nth' };
+
+// Matches a {group} without nested braces; applied repeatedly so inner groups resolve first
+const GROUP = '\\{([^{}]*)\\}';
+
+const powerWords = (exponent: string) => {
+  const e = exponent.trim();
+  if (e === '2') return ' squared';
+  if (e === '3') return ' cubed';
+  if (e === '\\circ' || e === 'degrees') return ' degrees';
+  if (e === '-1') return ' inverse';
+  return ` to the power of ${e}`;
+};
+
+const speakMath = (latex: string): string => {
+  let s = ` ${latex} `;
+  s = s.replace(/\\(left|right|big|Big|bigg|Bigg)\b/g, '').replace(/\\[,;:! ]|~|&|\\\\/g, ' ');
+  s = s.replace(/\^\s*\\circ/g, ' degrees');
+
+  let previous: string;
+  do {
+    previous = s;
+    s = s
+      .replace(new RegExp(`\\\\(?:${STYLE_COMMANDS})\\s*${GROUP}`, 'g'), ' $1 ')
+      .replace(new RegExp(`\\\\[dt]?frac\\s*${GROUP}\\s*${GROUP}`, 'g'), ' $1 over $2 ')
+      .replace(new RegExp(`\\\\sqrt\\s*\\[([^\\]]*)\\]\\s*${GROUP}`, 'g'), (_, n: string, x: string) =>
+        ` the ${ORDINALS[n.trim()] ?? `${n.trim()}th`} root of ${x} `)
+      .replace(new RegExp(`\\\\sqrt\\s*${GROUP}`, 'g'), ' the square root of $1 ')
+      .replace(new RegExp(`\\^\\s*${GROUP}`, 'g'), (_, e: string) => powerWords(e))
+      .replace(new RegExp(`_\\s*${GROUP}`, 'g'), (_, x: string) => (/^\d+$/.test(x.trim()) ? ` ${x.trim()} ` : ` sub ${x} `));
+  } while (s !== previous);
+
+  s = s
+    .replace(/\^\s*(\\?\w)/g, (_, e: string) => powerWords(e))
+    .replace(/_\s*(\d+|\\?\w)/g, (_, x: string) => (/^\d+$/.test(x) ? ` ${x} ` : ` sub ${x} `))
+    .replace(/\\([A-Za-z]+)/g, (match, name: string) => {
+      if (GREEK_LETTERS.includes(name.toLowerCase())) return ` ${name.replace(/^var/, '')} `;
+      return SYMBOLS[name] ? ` ${SYMBOLS[name]} ` : ' ';
+    })
+    .replace(/(\w|\))\s*'/g, '$1 prime')
+    .replace(/\s*=\s*/g, ' equals ')
+    .replace(/\s*\+\s*/g, ' plus ')
+    .replace(/(\S)\s*-\s*(?=\S)/g, '$1 minus ')
+    .replace(/^\s*-\s*/, ' negative ')
+    .replace(/\s*\/\s*/g, ' over ')
+    .replace(/\s*<\s*/g, ' is less than ')
+    .replace(/\s*>\s*/g, ' is greater than ')
+    .replace(/\s*\*\s*/g, ' times ')
+    .replace(/[{}]/g, ' ');
+
+  return s.replace(/\s+/g, ' ').trim();
+};
+
+/** Rewrites Markdown with LaTeX math into plain text that reads naturally aloud in `language`. */
+export const toSpokenText = (markdown: string, language: string = DEFAULT_TEACHING_LANGUAGE): string => {
+  const kept: string[] = [];
+  // Formulas kept as LaTeX are set aside so the Markdown cleanup below can't eat their _ and *
+  const math = (latex: string, display: boolean) => {
+    const end = display ? '. ' : ' ';
+    if (language === Language.ENGLISH) return ` ${speakMath(latex)}${end}`;
+    kept.push(`$${latex.trim()}$`);
+    return ` \u0000${kept.length - 1}\u0000${end}`;
+  };
+
+  return markdown
+    // Code can't be read aloud usefully; it stays on screen
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_, latex: string) => math(latex, true))
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, latex: string) => math(latex, true))
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, latex: string) => math(latex, false))
+    .replace(/(^|[^\\$])\$([^$\n]+?)\$/g, (_, before: string, latex: string) => `${before}${math(latex, false)}`)
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*\|?[-:| ]+\|[-:| ]*$/gm, '')
+    .replace(/\s*\|\s*/g, ', ')
+    .replace(/(\*\*|__|\*|_|~~)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/\u0000(\d+)\u0000/g, (_, i: string) => kept[Number(i)])
+    .trim();
+};
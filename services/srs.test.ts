@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { describeInterval, initialSchedule, isDue, scheduleReview } from './srs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2026, 0, 1);
+
+describe('scheduleReview', () => {
+  it('follows the SM-2 steps of 1, 6, then interval times ease', () => {
+    const first = scheduleReview(initialSchedule(now), 'good', now);
+    expect(first).toMatchObject({ interval: 1, repetitions: 1, dueAt: now + DAY_MS });
+    const second = scheduleReview(first, 'good', now);
+    expect(second).toMatchObject({ interval: 6, repetitions: 2 });
+    const third = scheduleReview(second, 'good', now);
+    expect(third.interval).toBe(Math.round(6 * third.easeFactor));
+  });
+
+  it('sends a forgotten card back to relearning within the session', () => {
+    const learned = { easeFactor: 2.5, interval: 20, repetitions: 4, dueAt: now };
+    const again = scheduleReview(learned, 'again', now);
+    expect(again).toMatchObject({ interval: 0, repetitions: 0 });
+    expect(again.dueAt - now).toBeLessThan(DAY_MS);
+    expect(again.easeFactor).toBeLessThan(learned.easeFactor);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    let card = initialSchedule(now);
+    for (let i = 0; i < 20; i++) card = scheduleReview(card, 'again', now);
+    expect(card.easeFactor).toBe(1.3);
+  });
+
+  it('spaces easy answers further apart than hard ones', () => {
+    const card = { easeFactor: 2.5, interval: 10, repetitions: 3, dueAt: now };
+    const hard = scheduleReview(card, 'hard', now);
+    const good = scheduleReview(card, 'good', now);
+    const easy = scheduleReview(card, 'easy', now);
+    expect(hard.interval).toBeGreaterThan(card.interval);
+    expect(hard.interval).toBeLessThan(good.interval);
+    expect(good.interval).toBeLessThan(easy.interval);
+  });
+});
+
+describe('isDue and describeInterval', () => {
+  it('treats a card as due from its due time on', () => {
+    expect(isDue({ dueAt: now }, now)).toBe(true);
+    expect(isDue({ dueAt: now + 1 }, now)).toBe(false);
+  });
+
+  it('labels intervals in minutes, days and months', () => {
+    const at = (ms: number) => describeInterval({ ...initialSchedule(now), dueAt: now + ms }, now);
+    expect(at(60 * 1000)).toBe('1m');
+    expect(at(6 * DAY_MS)).toBe('6d');
+    expect(at(90 * DAY_MS)).toBe('3mo');
+  });
+});
@@ -0,0 +1,56 @@
+import { Flashcard, ReviewRating } from "../types";
+
+// --- SM-2 Scheduler ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const RELEARN_DELAY_MS = 60 * 1000; // "Again" cards come back later in the same session
+
+const QUALITY: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export type ScheduleState = Pick<Flashcard, 'easeFactor' | 'interval' | 'repetitions' | 'dueAt'>;
+
+export const initialSchedule = (now: number = Date.now()): ScheduleState => ({
+  easeFactor: 2.5,
+  interval: 0,
+  repetitions: 0,
+  dueAt: now,
+});
+
+/** Applies one review to a card's schedule using the SM-2 algorithm with Anki-style hard/easy tweaks. */
+export const scheduleReview = (card: ScheduleState, rating: ReviewRating, now: number = Date.now()): ScheduleState => {
+  const q = QUALITY[rating];
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  if (q < 3) {
+    return { easeFactor, interval: 0, repetitions: 0, dueAt: now + RELEARN_DELAY_MS };
+  }
+
+  let interval: number;
+  if (card.repetitions === 0) {
+    interval = rating === 'easy' ? 4 : 1;
+  } else if (card.repetitions === 1) {
+    interval = rating === 'hard' ? 3 : 6;
+  } else if (rating === 'hard') {
+    interval = Math.max(card.interval + 1, Math.round(card.interval * 1.2));
+  } else {
+    interval = Math.round(card.interval * easeFactor * (rating === 'easy' ? 1.3 : 1));
+  }
+
+  return { easeFactor, interval, repetitions: card.repetitions + 1, dueAt: now + interval * DAY_MS };
+};
+
+export const isDue = (card: Pick<Flashcard, 'dueAt'>, now: number = Date.now()) => card.dueAt <= now;
+
+/** Short label for the interval a rating would produce, e.g. "1m", "6d". */
+export const describeInterval = (state: ScheduleState, now: number = Date.now()) => {
+  const ms = state.dueAt - now;
+  if (ms < DAY_MS) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  const days = Math.round(ms / DAY_MS);
+  return days < 30 ? `${days}d` : `${Math.round(days / 30)}mo`;
+};
@@ -0,0 +1,73 @@
+import { LectureSection } from "../types";
+
+// --- Incremental JSON Reading ---
+// Streamed structured output arrives as an unfinished JSON document. These helpers
+// pull out only the pieces that are already complete, so the UI never shows half a value.
+
+/** Value of a top-level string property once its closing quote has arrived. */
+export const readCompleteString = (text: string, key: string): string | undefined => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`).exec(text);
+  if (!match) return undefined;
+  try {
+    return JSON.parse(`"${match[1]}"`);
+  } catch {
+    return undefined;
+  }
+};
+
+/** Every element of the array property `key` whose closing bracket or brace has arrived. */
+export const readCompleteArrayItems = <T>(text: string, key: string): T[] => {
+  const start = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text);
+  if (!start) return [];
+
+  const items: T[] = [];
+  let depth = 0;
+  let inString = false;
+  let itemStart = -1;
+
+  for (let i = start.index + start[0].length; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      if (depth === 0) itemStart = i;
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      if (depth === 0) break; // End of the array itself
+      depth--;
+      if (depth === 0 && itemStart >= 0) {
+        try {
+          items.push(JSON.parse(text.slice(itemStart, i + 1)) as T);
+        } catch { /* incomplete or malformed element, skip */ }
+        itemStart = -1;
+      }
+    }
+  }
+  return items;
+};
+
+export interface PartialLecture {
+  title?: string;
+  summary?: string;
+  sections: LectureSection[];
+}
+
+/**
+ * Reads whatever is finished in a streamed lecture. Sections only appear once
+ * their object is closed; `sections` is searched after the header fields so a
+ * nested key can't be mistaken for the lecture title.
+ */
+export const readPartialLecture = (text: string): PartialLecture => {
+  const sectionsAt = text.search(/"sections"\s*:/);
+  const header = sectionsAt >= 0 ? text.slice(0, sectionsAt) : text;
+  return {
+    title: readCompleteString(header, 'title'),
+    summary: readCompleteString(header, 'summary'),
+    sections: readCompleteArrayItems<LectureSection>(text, 'sections'),
+  };
+};
@@ -0,0 +1,51 @@
+import { adviceFor, isAbortError } from "./errors";
+
+// --- Toasts ---
+// Short notices that appear in a corner without blocking the page. Any module can
+// raise one; the ToastViewport that App renders shows them.
+
+export type ToastKind = 'error' | 'info' | 'success';
+
+export interface Toast {
+  id: number;
+  kind: ToastKind;
+  title: string;
+  message?: string;
+}
+
+// Errors stay longest since they say what to do next
+const TOAST_DURATION_MS: Record<ToastKind, number> = { error: 10000, info: 6000, success: 4000 };
+
+let toasts: Toast[] = [];
+let nextId = 1;
+const listeners = new Set<(toasts: Toast[]) => void>();
+
+const publish = (next: Toast[]) => {
+  toasts = next;
+  listeners.forEach(listener => listener(toasts));
+};
+
+export const dismissToast = (id: number) => publish(toasts.filter(t => t.id !== id));
+
+/** Shows a toast that dismisses itself; the same notice raised twice replaces the first. */
+export const showToast = (toast: Omit<Toast, 'id'>): number => {
+  const id = nextId++;
+  publish([...toasts.filter(t => t.title !== toast.title || t.message !== toast.message), { ...toast, id }]);
+  setTimeout(() => dismissToast(id), TOAST_DURATION_MS[toast.kind]);
+  return id;
+};
+
+/** Says what failed and what to do next; `action` reads like "generate the quiz". Cancellations show nothing. */
+export const showErrorToast = (error: unknown, action: string) => {
+  if (isAbortError(error)) return;
+  showToast({ kind: 'error', ...adviceFor(error, action) });
+};
+
+/** Calls `listener` with the current toasts now and after every change; returns an unsubscribe function. */
+export const subscribeToToasts = (listener: (toasts: Toast[]) => void) => {
+  listeners.add(listener);
+  listener(toasts);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,126 @@
+import { UploadedFile } from "../types";
+
+// --- Upload Pipeline ---
+// Book pages are sent to the model inline as base64, so photos are downscaled and
+// recompressed in the browser and the whole set is checked against the request size
+// limit before any API call.
+
+/** Longest side of an uploaded photo, in pixels; set MAX_IMAGE_DIMENSION in .env.local to change it. */
+export const MAX_IMAGE_DIMENSION = Number(process.env.MAX_IMAGE_DIMENSION) || 2048;
+
+const JPEG_QUALITY = 0.85;
+
+// Gemini rejects requests over 20 MB; the rest is left for the prompt
+export const MAX_INLINE_PAYLOAD_BYTES = 18 * 1024 * 1024;
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${blob instanceof File ? blob.name : 'the file'}.`));
+  reader.readAsDataURL(blob);
+});
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error("The image could not be decoded."));
+  image.src = src;
+});
+
+const base64Of = (dataUrl: string) => dataUrl.slice(dataUrl.indexOf(',') + 1);
+
+/**
+ * Redraws an image as a JPEG no larger than MAX_IMAGE_DIMENSION on its longest side,
+ * turned clockwise by `quarterTurns`. Without a resize or turn the original is kept
+ * when re-encoding would not make it smaller.
+ */
+const prepareImage = async (file: UploadedFile, quarterTurns = 0): Promise<UploadedFile> => {
+  const image = await loadImage(`data:${file.mimeType};base64,${file.data}`);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  const sideways = turns % 2 === 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = sideways ? height : width;
+  canvas.height = sideways ? width : height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return file;
+  // JPEG has no transparency; pages with a clear background should stay white
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(turns * Math.PI / 2);
+  ctx.drawImage(image, -width / 2, -height / 2, width, height);
+
+  const data = base64Of(canvas.toDataURL('image/jpeg', JPEG_QUALITY));
+  if (scale === 1 && turns === 0 && data.length >= file.data.length) return file;
+  return { ...file, data, mimeType: 'image/jpeg' };
+};
+
+const isImage = (file: UploadedFile) => file.mimeType.startsWith('image/');
+
+/** Reads a selected file, downscaling photos; images the browser can't decode are kept as they are. */
+export const readUploadedFile = async (file: File): Promise<UploadedFile> => {
+  const uploaded: UploadedFile = {
+    data: base64Of(await readAsDataUrl(file)),
+    mimeType: file.type,
+    name: file.name,
+    size: file.size,
+  };
+  if (!isImage(uploaded)) return uploaded;
+  try {
+    return await prepareImage(uploaded);
+  } catch (e) {
+    console.warn(`Sending ${file.name} at full size`, e);
+    return uploaded;
+  }
+};
+
+/** Encodes a page drawn on a canvas, such as a camera scan, as an upload. */
+export const canvasToUploadedFile = (canvas: HTMLCanvasElement, name: string): UploadedFile => {
+  const data = base64Of(canvas.toDataURL('image/jpeg', JPEG_QUALITY));
+  return { data, mimeType: 'image/jpeg', name, size: Math.round(data.length * 3 / 4) };
+};
+
+/** Reads several files, in the order they were selected. */
+export const readUploadedFiles = (files: File[]): Promise<UploadedFile[]> => Promise.all(files.map(readUploadedFile));
+
+// A rotated photo remembers the upload it came from, so every turn is drawn from that
+// once instead of re-encoding an already re-encoded JPEG
+const rotationSources = new WeakMap<UploadedFile, { source: UploadedFile; quarterTurns: number }>();
+
+/** Turns a photo a quarter turn clockwise. */
+export const rotateUploadedImage = async (file: UploadedFile): Promise<UploadedFile> => {
+  if (!isImage(file)) return file;
+  const { source, quarterTurns } = rotationSources.get(file) ?? { source: file, quarterTurns: 0 };
+  const turns = (quarterTurns + 1) % 4;
+  if (turns === 0) return source;
+  const rotated = await prepareImage(source, turns);
+  rotationSources.set(rotated, { source, quarterTurns: turns });
+  return rotated;
+};
+
+export const moveFile = (files: UploadedFile[], from: number, to: number): UploadedFile[] => {
+  const next = [...files];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+// --- Payload Size ---
+
+/** Bytes the files add to a request, as base64. */
+export const inlinePayloadBytes = (files: UploadedFile[]) => files.reduce((sum, f) => sum + f.data.length, 0);
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/** Says why the files can't be sent in one request, or null when they can. */
+export const payloadProblem = (files: UploadedFile[]): string | null => {
+  const bytes = inlinePayloadBytes(files);
+  if (bytes <= MAX_INLINE_PAYLOAD_BYTES) return null;
+  return `These files add up to ${formatBytes(bytes)}, over the ${formatBytes(MAX_INLINE_PAYLOAD_BYTES)} that can be sent at once. ` +
+    (files.length > 1 ? "Remove some pages, or split a large PDF and upload one part." : "Split the PDF and upload one part at a time.");
+};
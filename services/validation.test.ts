@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ResponseValidationError, Validated, requestValidated } from './validation';
+
+// Accepts a list of numbers; strings in it are errors worth a repair, anything else is unusable
+const validateNumbers = (raw: unknown): Validated<number[]> => {
+  if (!Array.isArray(raw)) return { value: null, errors: ['The reply must be an array.'] };
+  const errors = raw.filter(item => typeof item !== 'number').map(item => `${JSON.stringify(item)} is not a number.`);
+  return { value: raw.filter((item): item is number => typeof item === 'number'), errors };
+};
+
+const replies = (...texts: (string | Error)[]) => {
+  const generate = vi.fn(async (_repair: string | null) => {
+    const next = texts.shift();
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  return generate;
+};
+
+describe('requestValidated', () => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+  it('returns the first fully valid reply', async () => {
+    const generate = replies('[1, 2]');
+    await expect(requestValidated(generate, validateNumbers)).resolves.toEqual([1, 2]);
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(generate).toHaveBeenCalledWith(null);
+  });
+
+  it('shows the model what was wrong when asking again', async () => {
+    const generate = replies('```json\n[1, "two"]\n```', '[1, 2]');
+    await expect(requestValidated(generate, validateNumbers)).resolves.toEqual([1, 2]);
+    expect(generate.mock.calls[1][0]).toContain('"two" is not a number.');
+  });
+
+  it('keeps the best usable reply when the repairs are worse', async () => {
+    const generate = replies('[1, 2, "x"]', 'not json', '{"an": "object"}');
+    await expect(requestValidated(generate, validateNumbers)).resolves.toEqual([1, 2]);
+  });
+
+  it('keeps the best usable reply when a repair request fails', async () => {
+    const generate = replies('[1, "x"]', new Error('network down'));
+    await expect(requestValidated(generate, validateNumbers)).resolves.toEqual([1]);
+  });
+
+  it('rethrows a failed first request and cancellations', async () => {
+    await expect(requestValidated(replies(new Error('network down')), validateNumbers)).rejects.toThrow('network down');
+    const aborted = new DOMException('The operation was aborted.', 'AbortError');
+    await expect(requestValidated(replies('[1, "x"]', aborted), validateNumbers)).rejects.toBe(aborted);
+  });
+
+  it('throws a ResponseValidationError when no reply is usable', async () => {
+    const generate = replies('nope', '"still no"', '[');
+    await expect(requestValidated(generate, validateNumbers)).rejects.toBeInstanceOf(ResponseValidationError);
+    expect(generate).toHaveBeenCalledTimes(3);
+  });
+});
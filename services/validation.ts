@@ -0,0 +1,388 @@
+import { FlashcardDraft, LectureContent, LectureSection, QuestionGrade, QuestionType, QuizQuestion } from "../types";
+import { CitedFile, normalizeSectionCitations } from "./citations";
+import { normalizeSectionVisual, parseMermaid, visualTypeOf } from "./diagrams";
+import { checkQuizQuestion, RawQuizQuestion } from "./quiz";
+import { isAbortError } from "./errors";
+
+// --- Response Validation ---
+// Structured output from a model is only mostly right. Each validator fixes what it
+// can quietly and lists what it can't, in words the model can act on, so the call can
+// be repeated with those errors until the reply is usable or the attempts run out.
+
+/**
+ * `errors` lists problems worth asking the model to fix. `value` is null when the reply
+ * is unusable; otherwise it is the best usable reading, which may have dropped parts.
+ */
+export interface Validated<T> {
+  value: T | null;
+  errors: string[];
+}
+
+export class ResponseValidationError extends Error {
+  constructor(readonly errors: string[], attempts: number) {
+    super(`The model's reply could not be used after ${attempts} ${attempts === 1 ? "attempt" : "attempts"}: ${errors[0] ?? "unknown problem"}`);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+/** Replies retried after the first one. */
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// Tells a reply cut off mid-document apart from one that is simply malformed
+const isTruncated = (text: string) => {
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      depth--;
+    }
+  }
+  return inString || depth > 0;
+};
+
+/** Parses a JSON reply, tolerating a Markdown code fence around it. */
+export const parseModelJson = (text: string | undefined): Validated<unknown> => {
+  const trimmed = (text ?? '').trim().replace(/^```(?:json)?\s*\n?/i, '').replace(/\n?```$/, '').trim();
+  if (!trimmed) return { value: null, errors: ["The reply was empty."] };
+  try {
+    const value = JSON.parse(trimmed);
+    return value === null ? { value: null, errors: ["The reply was null."] } : { value, errors: [] };
+  } catch (e) {
+    if (isTruncated(trimmed)) {
+      return { value: null, errors: ["The JSON was cut off before the end. Return the complete document, keeping it within the length limit."] };
+    }
+    return { value: null, errors: [`The reply is not valid JSON (${e instanceof Error ? e.message : String(e)}).`] };
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// --- Chapters ---
+
+/** Accepts `{ chapters: [...] }` or a bare array; blank and repeated titles are dropped. An empty list is a valid answer. */
+export const validateChapters = (raw: unknown): Validated<string[]> => {
+  const list = isObject(raw) ? raw.chapters : raw;
+  if (!Array.isArray(list)) return { value: null, errors: ['"chapters" must be an array of chapter titles.'] };
+  const seen = new Set<string>();
+  const chapters = list.map(text).filter(title => {
+    const key = title.toLowerCase();
+    if (!title || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  const errors = list.some(item => typeof item !== 'string') ? ['Every entry in "chapters" must be a string title.'] : [];
+  return { value: chapters, errors };
+};
+
+// --- Lectures ---
+
+/**
+ * Checks a lecture reply and normalizes its citations and visuals against `files`.
+ * Sections without a heading or content are dropped; the lecture is usable while one remains.
+ */
+export const validateLecture = (raw: unknown, files: CitedFile[]): Validated<LectureContent> => {
+  if (!isObject(raw)) return { value: null, errors: ["The reply must be a JSON object with title, summary and sections."] };
+  const errors: string[] = [];
+  const title = text(raw.title);
+  if (!title) errors.push('"title" is missing or empty.');
+
+  if (!Array.isArray(raw.sections) || raw.sections.length === 0) {
+    return { value: null, errors: [...errors, '"sections" must be a non-empty array.'] };
+  }
+  const sections: LectureSection[] = [];
+  raw.sections.forEach((section: unknown, idx) => {
+    if (!isObject(section)) {
+      errors.push(`Section ${idx} is not an object.`);
+      return;
+    }
+    const heading = text(section.heading);
+    const content = text(section.content);
+    if (!heading || !content) {
+      errors.push(`Section ${idx} has no ${!heading ? 'heading' : 'content'}.`);
+      return;
+    }
+    // The prompt doubles as caption and alt text, so the heading will do when it's missing
+    sections.push({ ...(section as unknown as LectureSection), heading, content, visualPrompt: text(section.visualPrompt) || heading });
+  });
+  if (sections.length === 0) return { value: null, errors };
+
+  return {
+    value: {
+      title: title || sections[0].heading,
+      summary: text(raw.summary),
+      sections: normalizeSectionCitations(sections, files).map(normalizeSectionVisual),
+    },
+    errors,
+  };
+};
+
+// --- Quizzes ---
+
+export interface QuizExpectations {
+  questionCount: number;
+  questionTypes?: QuestionType[];
+  sectionCount?: number;
+}
+
+/** Keeps every usable question, up to the requested count; a short quiz is usable but worth repairing. */
+export const validateQuiz = (raw: unknown, expected: QuizExpectations): Validated<QuizQuestion[]> => {
+  if (!Array.isArray(raw)) return { value: null, errors: ["The reply must be a JSON array of questions."] };
+  const errors: string[] = [];
+  const questions: QuizQuestion[] = [];
+  raw.forEach((item: RawQuizQuestion, idx) => {
+    const checked = checkQuizQuestion(item, expected.sectionCount);
+    if (typeof checked === 'string') {
+      errors.push(`Question ${idx} ${checked}.`);
+    } else if (expected.questionTypes && !expected.questionTypes.includes(checked.type)) {
+      errors.push(`Question ${idx} has type "${checked.type}", which was not requested.`);
+    } else {
+      questions.push(checked);
+    }
+  });
+  if (questions.length < expected.questionCount) {
+    errors.push(`Only ${questions.length} of the ${expected.questionCount} requested questions are usable.`);
+  }
+  return { value: questions.length > 0 ? questions.slice(0, expected.questionCount) : null, errors };
+};
+
+// --- Grading ---
+
+/** Scores outside 0 to 1 are clamped; a grade without a numeric score is unusable. */
+export const validateGrade = (raw: unknown): Validated<QuestionGrade> => {
+  const score = isObject(raw) ? Number(raw.score) : NaN;
+  if (!isObject(raw) || typeof raw.score !== 'number' || !Number.isFinite(score)) {
+    return { value: null, errors: ['"score" must be a number between 0 and 1.'] };
+  }
+  return { value: { score: Math.min(1, Math.max(0, score)), feedback: text(raw.feedback) }, errors: [] };
+};
+
+// --- Flashcards ---
+
+/** Drops cards without both sides; section links past the end of the lecture are removed. */
+export const validateFlashcards = (raw: unknown, sectionCount: number): Validated<FlashcardDraft[]> => {
+  if (!Array.isArray(raw)) return { value: null, errors: ["The reply must be a JSON array of cards."] };
+  const errors: string[] = [];
+  const cards: FlashcardDraft[] = [];
+  raw.forEach((card: unknown, idx) => {
+    const front = isObject(card) ? text(card.front) : '';
+    const back = isObject(card) ? text(card.back) : '';
+    if (!front || !back) {
+      errors.push(`Card ${idx} needs both a front and a back.`);
+      return;
+    }
+    const sectionIndex = Number((card as Record<string, unknown>).sectionIndex);
+    cards.push({ front, back, sectionIndex: Number.isInteger(sectionIndex) && sectionIndex >= 0 && sectionIndex < sectionCount ? sectionIndex : undefined });
+  });
+  return { value: cards, errors };
+};
+
+// --- Translations ---
+
+/**
+ * The original question in the translation's words. Answer keys (which option, true or
+ * false, the order of items) always come from the original, so they must line up one for one.
+ */
+const translatedWording = (original: QuizQuestion, translated: QuizQuestion): QuizQuestion | string => {
+  const wording = { question: translated.question, explanation: translated.explanation };
+  switch (original.type) {
+    case 'multiple-choice':
+    case 'multi-select': {
+      if (translated.type !== original.type) break;
+      if (translated.options.length !== original.options.length) {
+        return `has ${translated.options.length} options but the original has ${original.options.length}; translate each option in place`;
+      }
+      return { ...original, ...wording, options: translated.options, distractorNotes: translated.distractorNotes };
+    }
+    case 'true-false':
+      if (translated.type !== original.type) break;
+      return { ...original, ...wording };
+    case 'fill-blank':
+      if (translated.type !== original.type) break;
+      return { ...original, ...wording, acceptedAnswers: translated.acceptedAnswers };
+    case 'ordering':
+      if (translated.type !== original.type) break;
+      if (translated.items.length !== original.items.length) {
+        return `has ${translated.items.length} items but the original has ${original.items.length}; translate each item in place`;
+      }
+      return { ...original, ...wording, items: translated.items };
+    case 'short-answer':
+      if (translated.type !== original.type) break;
+      return { ...original, ...wording, rubric: translated.rubric, sampleAnswer: translated.sampleAnswer };
+  }
+  return `changed type from "${original.type}" to "${translated.type}"`;
+};
+
+/**
+ * The original section's diagram in the translation's words. A chart keeps its kind and
+ * values and takes the translated titles, labels and series names; Mermaid is taken whole
+ * and checked by `checkTranslatedDiagrams`.
+ */
+const translatedVisual = (original: LectureSection, translated: Record<string, unknown>): Partial<LectureSection> | string => {
+  if (visualTypeOf(original) === 'mermaid') {
+    const { mermaid } = normalizeSectionVisual({ ...original, mermaid: text(translated.mermaid) });
+    return mermaid ? { mermaid } : 'lost its "mermaid" diagram';
+  }
+  if (visualTypeOf(original) === 'chart' && original.chart) {
+    const chart = isObject(translated.chart) ? translated.chart : {};
+    const labels = Array.isArray(chart.labels) ? chart.labels.map(text) : [];
+    const names = Array.isArray(chart.series) ? chart.series.map(s => (isObject(s) ? text(s.name) : '')) : [];
+    if (labels.length !== original.chart.labels.length || labels.some(l => !l)) {
+      return `has ${labels.length} chart labels but the original has ${original.chart.labels.length}; translate each label in place`;
+    }
+    if (names.length !== original.chart.series.length) {
+      return `has ${names.length} chart series but the original has ${original.chart.series.length}`;
+    }
+    const label = (value: unknown, fallback?: string) => (fallback ? text(value) || fallback : undefined);
+    return {
+      chart: {
+        ...original.chart,
+        title: label(chart.title, original.chart.title),
+        xLabel: label(chart.xLabel, original.chart.xLabel),
+        yLabel: label(chart.yLabel, original.chart.yLabel),
+        labels,
+        series: original.chart.series.map((s, i) => ({ ...s, name: names[i] || s.name })),
+      },
+    };
+  }
+  return {};
+};
+
+/**
+ * A translation must keep the lecture's sections and the quiz's questions one for one.
+ * Only the wording is taken from it, diagram labels included: prompts, citations, chart
+ * values and answer keys stay the original's.
+ */
+export const validateTranslation = (
+  raw: unknown,
+  original: LectureContent,
+  quiz: QuizQuestion[]
+): Validated<{ lecture: LectureContent; quiz: QuizQuestion[] }> => {
+  if (!isObject(raw) || !isObject(raw.lecture)) return { value: null, errors: ['The reply must be a JSON object with "lecture" and "quiz".'] };
+  const errors: string[] = [];
+  const title = text(raw.lecture.title);
+  if (!title) errors.push('"lecture.title" is missing or empty.');
+  const sections = Array.isArray(raw.lecture.sections) ? raw.lecture.sections : [];
+  if (sections.length !== original.sections.length) {
+    errors.push(`"lecture.sections" has ${sections.length} entries but the original has ${original.sections.length}.`);
+  }
+  const visuals = sections.map((section: unknown, idx) => {
+    if (!isObject(section) || !text(section.heading) || !text(section.content)) {
+      errors.push(`Section ${idx} lost its heading or content.`);
+      return {};
+    }
+    if (!original.sections[idx]) return {};
+    const visual = translatedVisual(original.sections[idx], section);
+    if (typeof visual === 'string') errors.push(`Section ${idx} ${visual}.`);
+    return visual;
+  });
+  const translatedQuiz = Array.isArray(raw.quiz) ? raw.quiz : [];
+  if (translatedQuiz.length !== quiz.length) {
+    errors.push(`"quiz" has ${translatedQuiz.length} questions but the original has ${quiz.length}.`);
+  }
+  const questions = translatedQuiz.map((item: RawQuizQuestion, idx) => {
+    const checked = checkQuizQuestion(item, original.sections.length);
+    const merged = typeof checked === 'string' || !quiz[idx] ? checked : translatedWording(quiz[idx], checked);
+    if (typeof merged === 'string') errors.push(`Question ${idx} ${merged}.`);
+    return merged;
+  });
+  if (errors.length > 0) return { value: null, errors };
+
+  return {
+    value: {
+      lecture: {
+        title,
+        summary: text(raw.lecture.summary),
+        // Images are reused as they are, so keep their prompts attached to the same sections
+        sections: original.sections.map((s, i) => ({
+          ...s,
+          ...(visuals[i] as Partial<LectureSection>),
+          heading: text(sections[i].heading),
+          content: text(sections[i].content),
+        })),
+      },
+      quiz: questions as QuizQuestion[],
+    },
+    errors,
+  };
+};
+
+/**
+ * Mermaid can only be parsed asynchronously, so translated diagrams are checked after
+ * `validateTranslation`. One that no longer parses falls back to the original and is
+ * reported, so a repair can fix it.
+ */
+export const checkTranslatedDiagrams = async (
+  result: Validated<{ lecture: LectureContent; quiz: QuizQuestion[] }>,
+  original: LectureContent
+): Promise<Validated<{ lecture: LectureContent; quiz: QuizQuestion[] }>> => {
+  if (!result.value) return result;
+  const errors = [...result.errors];
+  const sections = await Promise.all(result.value.lecture.sections.map(async (section, idx) => {
+    const source = original.sections[idx]?.mermaid;
+    if (!section.mermaid || section.mermaid === source) return section;
+    try {
+      await parseMermaid(section.mermaid);
+      return section;
+    } catch (e) {
+      errors.push(`Section ${idx}'s "mermaid" diagram no longer parses (${e instanceof Error ? e.message : String(e)}). Translate only the label text and keep node ids and syntax unchanged.`);
+      return { ...section, mermaid: source };
+    }
+  }));
+  return { value: { ...result.value, lecture: { ...result.value.lecture, sections } }, errors };
+};
+
+// --- Repairing Retries ---
+
+const repairInstruction = (errors: string[]) => `
+      Your previous reply could not be used because of these problems:
+      ${errors.map(e => `- ${e}`).join('\n      ')}
+      Reply again with the complete JSON, fixing every problem listed and following all the instructions above.
+`;
+
+/**
+ * Asks for a structured reply until `validate` accepts it, showing the model what was
+ * wrong each time. `generate` gets null on the first call and the repair instructions
+ * to append to its prompt afterwards. When no attempt is fully valid, or a repair
+ * request fails, the usable value with the fewest problems is returned; with none, a
+ * ResponseValidationError (or the request's own error) is thrown.
+ */
+export const requestValidated = async <T>(
+  generate: (repair: string | null) => Promise<string | undefined>,
+  validate: (raw: unknown) => Validated<T> | Promise<Validated<T>>,
+  maxRepairs = MAX_REPAIR_ATTEMPTS
+): Promise<T> => {
+  let errors: string[] = [];
+  let best: { value: T; errors: string[] } | null = null; // Fewest errors among the usable replies so far
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    let reply: string | undefined;
+    try {
+      reply = await generate(attempt === 0 ? null : repairInstruction(errors));
+    } catch (e) {
+      if (!best || isAbortError(e)) throw e;
+      console.warn("Repair request failed; using the best earlier reply", e);
+      break;
+    }
+    const parsed = parseModelJson(reply);
+    const result = parsed.value === null ? parsed as Validated<T> : await validate(parsed.value);
+    if (result.value !== null && result.errors.length === 0) return result.value;
+    if (result.value !== null && (!best || result.errors.length < best.errors.length)) best = { value: result.value, errors: result.errors };
+    errors = result.errors;
+    console.warn(`Reply failed validation (attempt ${attempt + 1} of ${maxRepairs + 1})`, errors);
+  }
+  if (best) {
+    console.warn("Using a partly invalid reply", best.errors);
+    return best.value;
+  }
+  throw new ResponseValidationError(errors, maxRepairs + 1);
+};
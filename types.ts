@@ -4,22 +4,294 @@ export interface LectureContent {
   sections: LectureSection[];
 }
 
+/** Where in the uploaded files a section's claims come from. */
+export interface SourceCitation {
+  fileIndex: number; // Index into the uploaded files; each photo is its own file
+  page?: number; // 1-based page, for PDFs only
+  quote: string; // Short supporting passage, verbatim from the source
+}
+
+export type ImageAspectRatio = '16:9' | '4:3' | '1:1' | '3:4';
+
+// How a section's visual is drawn: a generated picture, or a text diagram rendered in the browser
+export type VisualType = 'image' | 'mermaid' | 'chart';
+
+export interface ChartSeries {
+  name: string;
+  values: number[]; // One value per label
+}
+
+export interface ChartSpec {
+  kind: 'bar' | 'line' | 'pie';
+  title?: string;
+  xLabel?: string;
+  yLabel?: string;
+  labels: string[];
+  series: ChartSeries[]; // Pie charts use only the first series
+}
+
 export interface LectureSection {
   heading: string;
   content: string;
-  visualPrompt: string; // Prompt to generate an image
+  visualPrompt: string; // Prompt to generate an image; also the caption and alt text of text diagrams
+  visualType?: VisualType; // Missing on lectures from before text diagrams, which are all images
+  mermaid?: string; // Mermaid source, when visualType is 'mermaid'
+  chart?: ChartSpec; // When visualType is 'chart'
+  visualAspectRatio?: ImageAspectRatio; // Chosen by the student; 16:9 when missing
   visualUrl?: string; // Populated after generation
+  citations?: SourceCitation[]; // Missing on lectures generated before citations existed
 }
 
-export interface QuizQuestion {
+export type QuestionType = 'multiple-choice' | 'multi-select' | 'true-false' | 'fill-blank' | 'ordering' | 'short-answer';
+
+interface QuizQuestionBase {
   question: string;
+  explanation: string; // Why the correct answer is right
+  sectionIndex?: number; // The LectureSection that teaches this concept
+}
+
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: 'multiple-choice';
   options: string[];
   correctAnswerIndex: number;
+  distractorNotes?: string[]; // Parallel to options: why each wrong option is wrong
+}
+
+export interface MultiSelectQuestion extends QuizQuestionBase {
+  type: 'multi-select';
+  options: string[];
+  correctAnswerIndices: number[];
+  distractorNotes?: string[];
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  type: 'true-false';
+  correctAnswer: boolean;
+}
+
+export interface FillBlankQuestion extends QuizQuestionBase {
+  type: 'fill-blank'; // The question text marks the gap with "____"
+  acceptedAnswers: string[];
+}
+
+export interface OrderingQuestion extends QuizQuestionBase {
+  type: 'ordering';
+  items: string[]; // In the correct order; shuffled for display
+}
+
+export interface ShortAnswerQuestion extends QuizQuestionBase {
+  type: 'short-answer';
+  rubric: string; // What a full-credit answer must cover
+  sampleAnswer: string;
+}
+
+export type QuizQuestion =
+  | MultipleChoiceQuestion
+  | MultiSelectQuestion
+  | TrueFalseQuestion
+  | FillBlankQuestion
+  | OrderingQuestion
+  | ShortAnswerQuestion;
+
+export type QuizAnswer =
+  | { type: 'multiple-choice'; selectedIndex: number }
+  | { type: 'multi-select'; selectedIndices: number[] }
+  | { type: 'true-false'; value: boolean }
+  | { type: 'fill-blank'; text: string }
+  | { type: 'ordering'; order: number[] } // Indices into OrderingQuestion.items
+  | { type: 'short-answer'; text: string };
+
+export interface QuestionGrade {
+  score: number; // 0 to 1, partial credit allowed
+  feedback?: string;
+}
+
+export interface QuizConfig {
+  questionCount: number;
+  questionTypes: QuestionType[];
+}
+
+// What the student has done so far, used to tailor a quiz
+export interface QuizContext {
+  studentQuestions?: string[]; // Asked during Live Professor sessions
+  language?: string; // Language to write the questions in; defaults to English
+  lectureSettings?: LectureSettings; // Sets the difficulty; the default settings when missing
+  focus?: QuizFocus[]; // Set for weak-spot practice quizzes
+}
+
+// A concept (lecture section) a practice quiz should drill
+export interface QuizFocus {
+  sectionIndex: number;
+  mastery: number; // Current estimate, 0 to 1
+  missedQuestions: string[]; // Questions on this section the student got wrong last time
+}
+
+export type AudienceLevel = 'high-school' | 'undergraduate' | 'graduate' | 'expert';
+
+export type LectureStyle = 'overview' | 'deep-dive' | 'exam-cram';
+
+// How a lecture is pitched; the quiz and the Live Professor follow the same settings
+export interface LectureSettings {
+  audience: AudienceLevel;
+  sectionCount: number; // Target number of lecture sections
+  style: LectureStyle;
 }
 
 export interface UploadedFile {
   data: string; // Base64
   mimeType: string;
+  name?: string;
+  size?: number; // Bytes of the original file
+}
+
+export interface SourceFileMeta {
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface SectionScore {
+  score: number; // Sum of grade scores for the section's questions
+  total: number; // Number of questions on the section
+}
+
+export interface QuizAttempt {
+  completedAt: number;
+  answers: Record<number, QuizAnswer>;
+  grades: Record<number, QuestionGrade>;
+  score: number; // Sum of grade scores, may be fractional
+  total: number;
+  sectionScores?: Record<number, SectionScore>; // By section index; missing on attempts from before mastery tracking
+  practice?: boolean; // A weak-spot practice quiz
+}
+
+export interface QuestionResult {
+  question: string;
+  type: QuestionType;
+  sectionIndex?: number;
+  sectionHeading?: string; // Kept so the history still reads well if the lecture is deleted
+  score: number; // 0 to 1
+}
+
+// One finished quiz, kept in the progress history independently of the lecture record
+export interface QuizHistoryEntry {
+  id: string;
+  lectureId: string;
+  lectureTitle: string;
+  chapter: string; // Empty when the whole book was taught
+  bookId: string;
+  startedAt: number;
+  completedAt: number;
+  score: number;
+  total: number;
+  practice: boolean; // A weak-spot practice quiz
+  questions: QuestionResult[];
+}
+
+// A set of uploaded files and the chapters found in it, for tracking coverage
+export interface BookRecord {
+  id: string; // Derived from the file names and sizes, see bookIdFor
+  name: string;
+  chapters: string[];
+  updatedAt: number;
+}
+
+export interface TranscriptTurn {
+  role: 'student' | 'professor';
+  text: string;
+  timestamp: number;
+}
+
+// One Live Professor conversation
+export interface LiveTranscript {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  turns: TranscriptTurn[];
+}
+
+// A class as stored in the local library
+export interface SavedLecture {
+  id: string;
+  title: string; // User-editable, defaults to the lecture title
+  createdAt: number;
+  updatedAt: number;
+  sourceFiles: SourceFileMeta[];
+  files: UploadedFile[];
+  chapter: string; // Empty when the whole book was taught
+  language: Language; // Language of the source book
+  teachingLanguage?: Language; // Missing on records saved before it could be chosen (they are in English)
+  settings?: LectureSettings; // Missing on records saved before lectures could be tuned
+  course?: CourseLink; // Set when the lecture teaches a chapter of a course
+  lecture: LectureContent;
+  generatedImages: Record<number, string>;
+  quiz: QuizQuestion[];
+  quizAttempts: QuizAttempt[];
+  transcripts?: LiveTranscript[]; // Missing on records saved before transcripts existed
+}
+
+// --- Courses ---
+
+// A lecture's place in a course
+export interface CourseLink {
+  courseId: string;
+  chapterIndex: number;
+}
+
+export interface SyllabusChapter {
+  title: string; // Exactly as detected in the book, so it can focus the chapter's lecture
+  summary: string;
+  objectives: string[]; // What the student should be able to do after the chapter
+  prerequisites: number[]; // Indices of earlier chapters to pass first
+}
+
+export interface Syllabus {
+  title: string;
+  description: string;
+  chapters: SyllabusChapter[];
+}
+
+export interface CourseChapter extends SyllabusChapter {
+  lectureId?: string; // Set once the chapter's lecture has been generated
+  bestScore?: number; // Best chapter quiz result, 0 to 1
+  passed: boolean;
+}
+
+// A whole book taught as a sequence of chapter lectures, ending in a cumulative exam
+export interface Course {
+  id: string;
+  title: string;
+  description: string;
+  createdAt: number;
+  updatedAt: number;
+  files: UploadedFile[];
+  sourceFiles: SourceFileMeta[];
+  language: Language;
+  teachingLanguage: Language;
+  settings: LectureSettings;
+  chapters: CourseChapter[];
+  examAttempts: QuizAttempt[];
+}
+
+export interface FlashcardDraft {
+  front: string;
+  back: string;
+  sectionIndex?: number; // Section whose generated visual illustrates the card
+}
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export interface Flashcard extends FlashcardDraft {
+  id: string;
+  lectureId: string;
+  source: 'lecture' | 'quiz';
+  createdAt: number;
+  // SM-2 scheduling state
+  easeFactor: number;
+  interval: number; // Days until the next review
+  repetitions: number; // Consecutive successful reviews
+  dueAt: number;
+  lastReviewedAt?: number;
 }
 
 export enum AppState {
@@ -27,6 +299,10 @@ export enum AppState {
   PROCESSING = 'PROCESSING',
   LECTURE = 'LECTURE',
   QUIZ = 'QUIZ',
+  LIBRARY = 'LIBRARY',
+  REVIEW = 'REVIEW',
+  DASHBOARD = 'DASHBOARD',
+  COURSE = 'COURSE',
 }
 
 export enum Language {